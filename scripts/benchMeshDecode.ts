@@ -0,0 +1,86 @@
+/**
+ * Binary (SMSH) vs JSON surface mesh decoding — the two paths getPackedSurfaceMesh can take.
+ *
+ *   npm run bench:mesh                      # the sample meshes in public/meshes
+ *   npm run bench:mesh -- a.msh b.stl       # your own files (any format the upload accepts)
+ *
+ * Each file's surface is serialized both ways, then decoded the way the client does it:
+ *   json    JSON.parse → parseSurfaceMesh → packSurfaceMesh
+ *   binary  decodeMeshBuffer
+ * Network time isn't included — compare the payload sizes for that.
+ */
+import { readFileSync, readdirSync } from "node:fs";
+import { basename, join } from "node:path";
+import { decodeMeshBuffer, encodeMeshBuffer, packSurfaceMesh } from "../src/lib/meshBuffer";
+import { detectMeshFormat, parseMeshBuffer } from "../src/lib/parsers";
+import { parseSurfaceMesh } from "../src/lib/schema";
+
+const WARMUP_RUNS = 3;
+const TIMED_RUNS = 15;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function time(run: () => unknown): number {
+  for (let i = 0; i < WARMUP_RUNS; i++) run();
+  const samples: number[] = [];
+  for (let i = 0; i < TIMED_RUNS; i++) {
+    const start = performance.now();
+    run();
+    samples.push(performance.now() - start);
+  }
+  return median(samples);
+}
+
+function kb(bytes: number): string {
+  return `${(bytes / 1024).toFixed(0)} KB`;
+}
+
+function toArrayBuffer(data: Buffer): ArrayBuffer {
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+function sampleFiles(): string[] {
+  const dir = join(process.cwd(), "public", "meshes");
+  return readdirSync(dir).filter((f) => detectMeshFormat(f)).map((f) => join(dir, f));
+}
+
+const files = process.argv.length > 2 ? process.argv.slice(2) : sampleFiles();
+const rows: Record<string, string | number>[] = [];
+
+for (const file of files) {
+  const format = detectMeshFormat(file);
+  if (!format) {
+    console.warn(`[Bench] skipping ${file} — unsupported format`);
+    continue;
+  }
+  const { surface } = parseMeshBuffer(format, toArrayBuffer(readFileSync(file)));
+  const json = JSON.stringify(surface);
+  const binary = encodeMeshBuffer(packSurfaceMesh(surface));
+
+  // Same mesh either way — a mismatch would make the timings meaningless
+  const fromJson = packSurfaceMesh(parseSurfaceMesh(JSON.parse(json)));
+  const fromBinary = decodeMeshBuffer(binary);
+  if (fromJson.numFaces !== fromBinary.numFaces || fromJson.numVertices !== fromBinary.numVertices) {
+    throw new Error(`${file}: JSON and binary decode to different meshes`);
+  }
+
+  const jsonMs = time(() => packSurfaceMesh(parseSurfaceMesh(JSON.parse(json))));
+  const binaryMs = time(() => decodeMeshBuffer(binary));
+  rows.push({
+    mesh: basename(file),
+    vertices: surface.vertices.length,
+    faces: surface.faces.length,
+    "json size": kb(Buffer.byteLength(json)),
+    "binary size": kb(binary.byteLength),
+    "json ms": Number(jsonMs.toFixed(2)),
+    "binary ms": Number(binaryMs.toFixed(3)),
+    speedup: `${(jsonMs / Math.max(binaryMs, 1e-3)).toFixed(0)}×`,
+  });
+}
+
+console.log(`Median of ${TIMED_RUNS} runs after ${WARMUP_RUNS} warm-up runs`);
+console.table(rows);
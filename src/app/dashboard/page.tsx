@@ -1,17 +1,25 @@
 "use client";
 
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/lib/auth";
-import { uploadMesh, getChatHistory, getSegments } from "@/lib/api";
+import { uploadMesh, getChatHistory, getSegments, sessionDisplayName, type QueryContext, type SegmentResult, type SessionInfo, type ToolCall } from "@/lib/api";
+import { parseMeshFile, detectMeshFormat, MESH_ACCEPT, type ParsedMesh } from "@/lib/parsers";
 import { useShapeSocket, type PipelinePhase } from "@/lib/useShapeSocket";
+import { isAbortError } from "@/lib/abort";
+import { isIncompatibleError } from "@/lib/schema";
+import { DEFAULT_SEGMENTATION_PARAMS, clearMeshPreset, type SegmentationParams } from "@/lib/segmentationParams";
+import { clearRuns } from "@/lib/pipelineRuns";
+import { cacheChatHistory } from "@/lib/sessionHistory";
+import { exportBaseName } from "@/lib/exportResults";
+import { diffSegmentations } from "@/lib/sessionDiff";
+import { readDashboardUrl, writeDashboardCamera, writeDashboardUrl, type DashboardView } from "@/lib/dashboardUrl";
 import {
   ArrowUp,
   Upload,
   X,
   Check,
   Plus,
-  MessageSquare,
   Box,
   Loader2,
   ZoomIn,
@@ -24,12 +32,31 @@ import {
   FileBox,
   ChevronUp,
   ChevronDown,
+  MousePointerClick,
+  AlertTriangle,
+  Square,
+  SlidersHorizontal,
 } from "lucide-react";
 import dynamic from "next/dynamic";
 import ReactMarkdown from "react-markdown";
-import { SEGMENT_COLORS, type MeshViewerHandle } from "@/components/meshConstants";
+import { SEGMENT_COLORS, type CameraState, type MeshViewerHandle } from "@/components/meshConstants";
+import SegmentInspector from "@/components/SegmentInspector";
+import ToolCallCard from "@/components/ToolCallCard";
+import SegmentationSettings from "@/components/SegmentationSettings";
+import PipelineTimeline from "@/components/PipelineTimeline";
+import SessionCompare from "@/components/SessionCompare";
+import SegmentationDiffTables, { type DiffFocus } from "@/components/SegmentationDiffTables";
+import SessionHistory from "@/components/SessionHistory";
+import ExportMenu from "@/components/ExportMenu";
+import CaptureMenu from "@/components/CaptureMenu";
+import TranscriptMenu from "@/components/TranscriptMenu";
+import ShareMenu from "@/components/ShareMenu";
 
 const MeshViewer = dynamic(() => import("@/components/MeshViewer"), { ssr: false });
+const MeshPreview = dynamic(() => import("@/components/MeshPreview"), { ssr: false });
+
+/** Quiet time before a camera move is written to the URL */
+const CAMERA_URL_DELAY_MS = 500;
 
 /* ── Sample meshes available in /public/meshes ── */
 
@@ -46,6 +73,12 @@ const SAMPLE_MESHES = [
 interface ChatMessage {
   role: "user" | "assistant" | "system";
   text: string;
+  /** Selection context sent along with a user question */
+  context?: QueryContext;
+  /** Tools the assistant ran to produce this answer */
+  toolCalls?: ToolCall[];
+  /** Segments the answer highlighted — snapshotted in transcript exports */
+  highlightIds?: number[];
 }
 
 /* ── Pipeline phase → human label ── */
@@ -64,19 +97,37 @@ function phaseLabel(phase: PipelinePhase): string {
     segment_done: "Segmentation complete",
     parsing_query: "Understanding question…",
     tool_call: "Running analysis…",
+    answering: "Writing answer…",
+    reconnecting: "Reconnecting…",
     query_done: "Done",
   };
   return map[phase] || "";
 }
 
+/** Query phases still accept further questions — answers are correlated per request */
+function isAnswering(phase: PipelinePhase): boolean {
+  return ["parsing_query", "tool_call", "answering"].includes(phase);
+}
+
 function isProcessing(phase: PipelinePhase): boolean {
   return [
     "connecting", "segmenting", "segmented", "downsampling",
     "downsampled", "embedding", "embedded", "stored",
-    "parsing_query", "tool_call",
+    "parsing_query", "tool_call", "answering", "reconnecting",
   ].includes(phase);
 }
 
+/** Transcript line for a finished segmentation */
+function describeSegmentation(result: SegmentResult): string {
+  const { summary } = result;
+  const counts = Object.entries(summary.counts_by_type).map(([t, c]) => `${c} ${t}`).join(", ");
+  return `Segmentation complete — ${summary.total_segments} segments found (${counts}).`;
+}
+
+function describeParams(params: SegmentationParams): string {
+  return `step ${params.target_step}, ${params.downsample_nodes} nodes${params.embed ? "" : ", no embeddings"}`;
+}
+
 /* ── Color dot for segment type ── */
 function segColorStyle(type: string) {
   const c = SEGMENT_COLORS[type];
@@ -85,7 +136,7 @@ function segColorStyle(type: string) {
 }
 
 export default function DashboardPage() {
-  const { uid, email, sessions, loading, logout, addSession } = useAuth();
+  const { uid, email, sessions, loading, logout, addSession, updateSession, renameSession, deleteSession } = useAuth();
   const router = useRouter();
 
   const [activeSession, setActiveSession] = useState<string | null>(null);
@@ -101,10 +152,12 @@ export default function DashboardPage() {
   const [modalDragging, setModalDragging] = useState(false);
   const [modalLoading, setModalLoading] = useState(false);
   const [modalError, setModalError] = useState("");
+  const [modalMesh, setModalMesh] = useState<ParsedMesh | null>(null);
+  const [modalParseError, setModalParseError] = useState("");
+  const [modalParsing, setModalParsing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const modalParseSeqRef = useRef(0); // ignore parses of files that were replaced meanwhile
 
-  const pendingPromptRef = useRef<string | null>(null);
-  const needsSegmentationRef = useRef(false); // true only for newly created sessions
   const [highlightIds, setHighlightIds] = useState<number[]>([]);
 
   // Smooth transition: wait a frame after session change before showing content
@@ -121,20 +174,82 @@ export default function DashboardPage() {
   const viewerContainerRef = useRef<HTMLDivElement>(null);
   const meshViewerRef = useRef<MeshViewerHandle>(null);
 
+  // Segments picked in the viewer — mirrored from MeshViewerHandle selection events
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const selectionUnsubRef = useRef<(() => void) | null>(null);
+  // Camera moves go to the URL once the view settles (auto-rotation never does)
+  const cameraUnsubRef = useRef<(() => void) | null>(null);
+  const cameraUrlTimerRef = useRef<number | undefined>(undefined);
+  const attachMeshViewer = useCallback((handle: MeshViewerHandle | null) => {
+    meshViewerRef.current = handle;
+    selectionUnsubRef.current?.();
+    selectionUnsubRef.current = handle ? handle.onSelectionChange(setSelectedIds) : null;
+    cameraUnsubRef.current?.();
+    window.clearTimeout(cameraUrlTimerRef.current);
+    cameraUnsubRef.current = handle
+      ? handle.onCameraChange((camera) => {
+          window.clearTimeout(cameraUrlTimerRef.current);
+          cameraUrlTimerRef.current = window.setTimeout(() => writeDashboardCamera(camera), CAMERA_URL_DELAY_MS);
+        })
+      : null;
+  }, []);
+
+  // Segment inspector type filter — reported to the assistant with "Ask about selection"
+  const [hiddenTypes, setHiddenTypes] = useState<string[]>([]);
+  const [askAboutSelection, setAskAboutSelection] = useState(false);
+
+  // Segmentation settings — params of the shown run (null when restored from REST) and the run it replaced
+  const [showSegSettings, setShowSegSettings] = useState(false);
+  const [segParams, setSegParams] = useState<SegmentationParams | null>(null);
+  const [previousRun, setPreviousRun] = useState<{ result: SegmentResult; params: SegmentationParams | null } | null>(null);
+  const [showRunDiff, setShowRunDiff] = useState(false);
+
+  // Session shown next to the active one in compare mode
+  const [compareSession, setCompareSession] = useState<string | null>(null);
+
   // WebSocket
   const {
-    connect, disconnect, triggerSegmentation, sendQuery,
+    connect, disconnect, triggerSegmentation, sendQuery, cancel, busy,
     phase, setPhase, progressText, segmentResult, setSegmentResult,
-    queryResult, queryResultVersion,
-    error: wsError, isConnected,
+    liveAnswers, runs,
+    error: wsError, incompatible: wsIncompatible, isConnected,
   } = useShapeSocket();
 
+  // Previous run (A) against the shown one (B) — only worked out while the diff panel is open
+  const runDiff = useMemo(
+    () => (showRunDiff && previousRun && segmentResult ? diffSegmentations(previousRun.result, segmentResult) : null),
+    [showRunDiff, previousRun, segmentResult],
+  );
+
+  // Payloads the backend sent in a shape this frontend doesn't understand
+  const [restIncompatible, setRestIncompatible] = useState<string | null>(null);
+  const backendIncompatible = restIncompatible ?? wsIncompatible;
+  const noteIncompatible = useCallback((err: unknown) => {
+    if (isIncompatibleError(err)) setRestIncompatible(err.message);
+  }, []);
+
   const scrollToBottom = useCallback(() => {
     setTimeout(() => {
       messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
     }, 50);
   }, []);
 
+  /** Request errors go to the transcript; aborts (session switch, lost connection) are reported elsewhere */
+  const reportRequestError = useCallback((err: unknown) => {
+    if (isAbortError(err)) return;
+    setMessages((prev) => [...prev, { role: "system", text: `Error: ${err instanceof Error ? err.message : String(err)}` }]);
+    scrollToBottom();
+  }, [scrollToBottom]);
+
+  /** Send a question — its answer lands in the transcript when that request settles */
+  const ask = useCallback((text: string, context?: QueryContext) => {
+    sendQuery(text, context).then((result) => {
+      setMessages((prev) => [...prev, { role: "assistant", text: result.answer, toolCalls: result.tool_calls, highlightIds: result.highlight_ids }]);
+      if (result.highlight_ids.length) setHighlightIds(result.highlight_ids);
+      scrollToBottom();
+    }, reportRequestError);
+  }, [sendQuery, scrollToBottom, reportRequestError]);
+
   /* ── Effects ── */
 
   // Smooth session transition — delay content until layout is painted
@@ -150,37 +265,11 @@ export default function DashboardPage() {
     return () => cancelAnimationFrame(raf);
   }, [activeSession]);
 
-  // Track whether the segment_done came from a fresh WS segmentation (not REST restore)
-  const freshSegmentationRef = useRef(false);
-
-  useEffect(() => {
-    if (phase === "segment_done" && segmentResult && freshSegmentationRef.current) {
-      freshSegmentationRef.current = false;
-      const summary = segmentResult.summary;
-      setMessages((prev) => [
-        ...prev,
-        {
-          role: "system",
-          text: `Segmentation complete — ${summary.total_segments} segments found (${Object.entries(summary.counts_by_type).map(([t, c]) => `${c} ${t}`).join(", ")}).`,
-        },
-      ]);
-      scrollToBottom();
-      const prompt = pendingPromptRef.current?.trim() || "describe this geometry";
-      pendingPromptRef.current = null;
-      setMessages((prev) => [...prev, { role: "user", text: prompt }]);
-      scrollToBottom();
-      sendQuery(prompt);
-    }
-  }, [phase, segmentResult, sendQuery, scrollToBottom]);
-
+  // Follow streaming answers as they grow
+  const liveLength = liveAnswers.reduce((n, a) => n + a.text.length + a.toolCalls.length + 1, 0);
   useEffect(() => {
-    if (queryResult) {
-      setMessages((prev) => [...prev, { role: "assistant", text: queryResult.answer }]);
-      if (queryResult.highlight_ids?.length) setHighlightIds(queryResult.highlight_ids);
-      scrollToBottom();
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [queryResultVersion]);
+    if (liveLength) scrollToBottom();
+  }, [liveLength, scrollToBottom]);
 
   useEffect(() => {
     if (wsError) {
@@ -189,13 +278,39 @@ export default function DashboardPage() {
     }
   }, [wsError, scrollToBottom]);
 
+  // Keep the history's segment count current — it backs "sort by segments"
+  const segmentCount = segmentResult?.summary.total_segments;
+  useEffect(() => {
+    if (activeSession && segmentCount !== undefined) updateSession(activeSession, { segment_count: segmentCount });
+  }, [activeSession, segmentCount, updateSession]);
+
+  // ── Deep links — the workspace is mirrored into the URL, and restored from it ──
+  // Camera from a restored URL, applied when the session's mesh loads
+  const [urlCamera, setUrlCamera] = useState<CameraState | null>(null);
+  const urlRestoredRef = useRef(false);
+
   useEffect(() => {
-    if (phase === "connected" && activeSession && needsSegmentationRef.current) {
-      needsSegmentationRef.current = false;
-      freshSegmentationRef.current = true; // this is a new segmentation → auto-describe after
-      triggerSegmentation();
+    if (!urlRestoredRef.current) return;
+    writeDashboardUrl({ session: activeSession, highlightIds, hiddenTypes, opacity: meshOpacity });
+  }, [activeSession, highlightIds, hiddenTypes, meshOpacity]);
+
+  // Latest handler, so the listener below isn't re-added every render
+  const applyUrlViewRef = useRef<(view: DashboardView) => void>(() => {});
+  useEffect(() => {
+    applyUrlViewRef.current = applyUrlView;
+  });
+
+  // Restore the URL's view once sessions are known, then follow back/forward
+  useEffect(() => {
+    if (loading || !uid) return;
+    if (!urlRestoredRef.current) {
+      urlRestoredRef.current = true;
+      applyUrlViewRef.current(readDashboardUrl(window.location.search));
     }
-  }, [phase, activeSession, triggerSegmentation]);
+    const onPopState = () => applyUrlViewRef.current(readDashboardUrl(window.location.search));
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, [loading, uid]);
 
   // Fullscreen change listener
   useEffect(() => {
@@ -221,60 +336,210 @@ export default function DashboardPage() {
 
   const hasSessions = sessions.length > 0;
   const processing = isProcessing(phase);
+  const chatBlocked = processing && !isAnswering(phase);
+
+  // "Ask about selection" only applies while something is selected or highlighted
+  const contextIds = selectedIds.length ? selectedIds : highlightIds;
+  const selectionAttached = askAboutSelection && contextIds.length > 0;
 
   /* ── Handlers ── */
 
+  /** Answers cut off by a dropped socket stay in the transcript once the user moves on */
+  function settleInterruptedAnswers() {
+    const interrupted = liveAnswers.filter((a) => a.status === "interrupted");
+    if (!interrupted.length) return;
+    setMessages((prev) => [
+      ...prev,
+      ...interrupted.map((a): ChatMessage => ({
+        role: "assistant",
+        text: `${a.text}\n\n_(answer interrupted)_`,
+        toolCalls: a.toolCalls,
+      })),
+    ]);
+  }
+
+  /** Selected/highlighted segments, type filter and view direction — what "these" refers to */
+  function buildQueryContext(): QueryContext {
+    const context: QueryContext = {};
+    if (selectedIds.length) context.selected_ids = selectedIds;
+    if (highlightIds.length) context.highlighted_ids = highlightIds;
+    if (hiddenTypes.length && segmentResult) {
+      context.visible_types = Object.keys(segmentResult.summary.counts_by_type).filter((t) => !hiddenTypes.includes(t));
+    }
+    const viewDirection = meshViewerRef.current?.getViewDirection();
+    if (viewDirection) context.view_direction = viewDirection;
+    return context;
+  }
+
   function handleSendMessage() {
     const text = chatInput.trim();
-    if (!text || !activeSession || processing) return;
-    setMessages((prev) => [...prev, { role: "user", text }]);
+    if (!text || !activeSession || chatBlocked) return;
+    const context = selectionAttached ? buildQueryContext() : undefined;
+    settleInterruptedAnswers();
+    setMessages((prev) => [...prev, { role: "user", text, context }]);
     setChatInput("");
     scrollToBottom();
-    sendQuery(text);
+    ask(text, context);
     // Keep focus on the input so the user can follow up immediately
     setTimeout(() => chatInputRef.current?.focus(), 0);
   }
 
+  /** Stop whatever is running — partial answers stay in the transcript, marked as stopped */
+  function handleStop() {
+    const partial = liveAnswers.filter((a) => a.status === "streaming" && (a.text || a.toolCalls.length));
+    cancel();
+    setMessages((prev) => [
+      ...prev,
+      ...partial.map((a): ChatMessage => ({
+        role: "assistant",
+        text: `${a.text}\n\n_(stopped)_`,
+        toolCalls: a.toolCalls,
+      })),
+      ...(partial.length ? [] : [{ role: "system" as const, text: "Stopped." }]),
+    ]);
+    scrollToBottom();
+  }
+
+  /** Segment the active session again — the result it replaces is kept as `previousRun` */
+  function handleResegment(params: SegmentationParams) {
+    setShowSegSettings(false);
+    const replaced = segmentResult ? { result: segmentResult, params: segParams } : null;
+    setMessages((prev) => [...prev, { role: "system", text: `Running segmentation (${describeParams(params)})…` }]);
+    scrollToBottom();
+
+    triggerSegmentation(params).then((result) => {
+      setSegParams(params);
+      if (replaced) {
+        setPreviousRun(replaced);
+        // Segment ids refer to the old run
+        setHighlightIds([]);
+        meshViewerRef.current?.setSelection([]);
+      }
+      const was = replaced ? ` Previous run: ${replaced.result.summary.total_segments} segments.` : "";
+      setMessages((prev) => [...prev, { role: "system", text: describeSegmentation(result) + was }]);
+      scrollToBottom();
+    }, reportRequestError);
+  }
+
+  /** Only the current run (B) is on screen — A's segment ids mean nothing to the viewer */
+  function handleRunDiffFocus(focus: DiffFocus, zoom = false) {
+    setHighlightIds(focus.b);
+    if (zoom && focus.b[0] !== undefined) meshViewerRef.current?.zoomToSegment(focus.b[0]);
+  }
+
+  function handleRunDiffFocusType(type: string) {
+    setHighlightIds(segmentResult?.segments.filter((s) => s.type === type).map((s) => s.segment_id) ?? []);
+  }
+
   function handleKeyDown(e: React.KeyboardEvent) {
     if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); handleSendMessage(); }
   }
 
   async function handleCreateInteraction() {
-    if (!modalFile || !uid) return;
+    // Wait for the local parse — until it's done we don't know whether the file is usable
+    if (!modalFile || !uid || modalParsing || modalParseError) return;
     setModalLoading(true);
     setModalError("");
     try {
       const data = await uploadMesh(uid, modalFile);
       const sid = data.session.session_id;
-      addSession(sid); // add to history sidebar immediately
-      pendingPromptRef.current = modalPrompt || null;
-      needsSegmentationRef.current = true; // new session → trigger segmentation on WS connect
+      const { graph } = modalMesh ?? {};
+      const countsDiffer = !!graph && (graph.numNodes !== data.ingest.num_nodes || graph.numEdges !== data.ingest.num_edges);
+      if (countsDiffer) {
+        console.warn(
+          "[Dashboard] local preview counts differ from backend ingest:",
+          { nodes: graph.numNodes, edges: graph.numEdges },
+          data.ingest,
+        );
+      }
+      // Add to history sidebar immediately
+      addSession({
+        session_id: sid,
+        created_at: data.session.created_at,
+        file_name: modalFile.name,
+        file_type: modalMesh?.format ?? detectMeshFormat(modalFile.name) ?? data.ingest.file_type,
+        num_nodes: data.ingest.num_nodes,
+        num_edges: data.ingest.num_edges,
+      });
+      const prompt = modalPrompt.trim() || "describe this geometry";
       setActiveSession(sid);
-      setMessages([{
-        role: "system",
-        text: `Uploaded ${modalFile.name} — ${data.ingest.num_nodes} nodes, ${data.ingest.num_edges} edges (${data.ingest.file_type})`,
-      }]);
+      setRestIncompatible(null);
+      setSegParams(null);
+      setPreviousRun(null);
+      setShowRunDiff(false);
+      setShowSegSettings(false);
+      setMessages([
+        {
+          role: "system",
+          text: `Uploaded ${modalFile.name} — ${data.ingest.num_nodes} nodes, ${data.ingest.num_edges} edges (${data.ingest.file_type})`,
+        },
+        // The server read the file differently from the preview — segments may not match what was shown
+        ...(countsDiffer
+          ? [{
+              role: "system" as const,
+              text: `Warning: the preview read ${graph.numNodes} nodes, ${graph.numEdges} edges, but the server ingested ${data.ingest.num_nodes} nodes, ${data.ingest.num_edges} edges.`,
+            }]
+          : []),
+      ]);
       setShowNewModal(false);
       setModalFile(null);
+      setModalMesh(null);
       setModalPrompt("");
+
+      // New session → segment (queued until the socket opens), then auto-describe
       connect(uid, sid);
-    } catch {
-      setModalError("Failed to upload. Please try again.");
+      triggerSegmentation(DEFAULT_SEGMENTATION_PARAMS).then((result) => {
+        setSegParams(DEFAULT_SEGMENTATION_PARAMS);
+        setMessages((prev) => [
+          ...prev,
+          { role: "system", text: describeSegmentation(result) },
+          { role: "user", text: prompt },
+        ]);
+        scrollToBottom();
+        ask(prompt);
+      }, reportRequestError);
+    } catch (err) {
+      noteIncompatible(err);
+      setModalError(isIncompatibleError(err) ? err.message : "Failed to upload. Please try again.");
     } finally {
       setModalLoading(false);
     }
   }
 
+  /** Set the modal file and parse it locally so malformed meshes are rejected before upload */
+  async function selectModalFile(file: File) {
+    const seq = ++modalParseSeqRef.current;
+    setModalFile(file);
+    setModalMesh(null);
+    setModalParseError("");
+    setModalParsing(true);
+
+    try {
+      const mesh = await parseMeshFile(file);
+      if (seq === modalParseSeqRef.current) setModalMesh(mesh);
+    } catch (err) {
+      if (seq === modalParseSeqRef.current) {
+        setModalParseError(err instanceof Error ? err.message : "Could not read mesh file.");
+      }
+    } finally {
+      if (seq === modalParseSeqRef.current) setModalParsing(false);
+    }
+  }
+
   function handleFileDrop(e: React.DragEvent) {
     e.preventDefault();
     setModalDragging(false);
     const file = e.dataTransfer.files?.[0];
-    if (file) setModalFile(file);
+    if (file) selectModalFile(file);
   }
 
   function closeModal() {
+    modalParseSeqRef.current++;
     setShowNewModal(false);
     setModalFile(null);
+    setModalMesh(null);
+    setModalParseError("");
+    setModalParsing(false);
     setModalPrompt("");
     setModalError("");
   }
@@ -285,7 +550,7 @@ export default function DashboardPage() {
       const res = await fetch(`/meshes/${sample.file}`);
       const blob = await res.blob();
       const file = new File([blob], sample.file, { type: "application/octet-stream" });
-      setModalFile(file);
+      selectModalFile(file);
       if (!showNewModal) setShowNewModal(true);
     } catch {
       console.error("Failed to load sample mesh");
@@ -298,7 +563,16 @@ export default function DashboardPage() {
     setActiveSession(sid);
     setMessages([]);
     setHighlightIds([]);
+    setSelectedIds([]);
+    setHiddenTypes([]);
     setSegmentResult(null);
+    setRestIncompatible(null);
+    setSegParams(null);
+    setPreviousRun(null);
+    setShowRunDiff(false);
+    setShowSegSettings(false);
+    setCompareSession(null);
+    setUrlCamera(null);
     setSessionLoading(true);
 
     if (!uid) return;
@@ -309,11 +583,12 @@ export default function DashboardPage() {
     // Load previous chat history + segments in parallel
     try {
       const [chatHistory, segments] = await Promise.all([
-        getChatHistory(uid, sid).catch(() => []),
-        getSegments(uid, sid).catch(() => null),
+        getChatHistory(uid, sid).catch((err) => { noteIncompatible(err); return []; }),
+        getSegments(uid, sid).catch((err) => { noteIncompatible(err); return null; }),
       ]);
 
-      // Restore chat messages
+      // Restore chat messages — and keep them for history search
+      cacheChatHistory(uid, sid, chatHistory);
       if (chatHistory.length > 0) {
         const restored: ChatMessage[] = chatHistory.map((msg) => ({
           role: msg.role === "user" ? "user" : "assistant",
@@ -335,6 +610,62 @@ export default function DashboardPage() {
     }
   }
 
+  function sessionById(sid: string): SessionInfo {
+    return sessions.find((s) => s.session_id === sid) ?? { session_id: sid };
+  }
+
+  async function handleDeleteSession(sid: string) {
+    await deleteSession(sid);
+    if (compareSession === sid) setCompareSession(null);
+    if (sid === activeSession) {
+      disconnect();
+      resetWorkspace();
+    }
+    // After disconnecting — closing the socket still records the active session's last runs
+    clearRuns(sid);
+    clearMeshPreset(sid);
+  }
+
+  function resetWorkspace() {
+    setActiveSession(null);
+    setMessages([]);
+    setHighlightIds([]);
+    setSelectedIds([]);
+    setHiddenTypes([]);
+    setSegmentResult(null);
+    setRestIncompatible(null);
+    setSegParams(null);
+    setPreviousRun(null);
+    setShowRunDiff(false);
+    setShowSegSettings(false);
+    setCompareSession(null);
+    setUrlCamera(null);
+  }
+
+  /** Bring the workspace to a URL's view — on load and on back/forward. Unknown sessions are ignored. */
+  function applyUrlView(view: DashboardView) {
+    const sid = view.session && sessions.some((s) => s.session_id === view.session) ? view.session : null;
+    if (!sid) {
+      if (activeSession) {
+        disconnect();
+        resetWorkspace();
+      }
+      return;
+    }
+    // Selecting resets the workspace synchronously — the URL's view is applied on top
+    if (sid !== activeSession) handleSelectSession(sid);
+    setHighlightIds(view.highlightIds);
+    setHiddenTypes(view.hiddenTypes);
+    if (view.opacity !== null) setMeshOpacity(view.opacity);
+    if (view.camera) {
+      // Hold the linked pose — rotating would turn it away and write that back into the URL
+      if (meshViewerRef.current?.isRotating()) meshViewerRef.current.toggleRotation();
+      setAutoRotate(false);
+    }
+    if (view.camera && sid === activeSession) meshViewerRef.current?.setCamera(view.camera);
+    else if (view.camera) setUrlCamera(view.camera);
+  }
+
   function toggleFullscreen() {
     if (!viewerContainerRef.current) return;
     if (document.fullscreenElement) {
@@ -359,8 +690,10 @@ export default function DashboardPage() {
                 {activeSession.slice(0, 8)}
               </span>
               <span
-                className={`h-2 w-2 rounded-full ${isConnected ? "bg-green-500" : "bg-black/15"}`}
-                title={isConnected ? "Connected" : "Disconnected"}
+                className={`h-2 w-2 rounded-full ${
+                  isConnected ? "bg-green-500" : phase === "reconnecting" ? "animate-pulse bg-amber-400" : "bg-black/15"
+                }`}
+                title={isConnected ? "Connected" : phase === "reconnecting" ? "Reconnecting…" : "Disconnected"}
               />
             </>
           )}
@@ -375,6 +708,21 @@ export default function DashboardPage() {
         </div>
       </header>
 
+      {/* ── Backend incompatible ── */}
+      {backendIncompatible && (
+        <div className="flex shrink-0 items-start gap-3 border-b border-red-500/15 bg-red-50 px-6 py-2.5">
+          <AlertTriangle size={15} className="mt-0.5 shrink-0 text-red-500/70" />
+          <div className="min-w-0 flex-1">
+            <p className="text-[13px] font-semibold text-red-600/80">
+              The backend sent data this version of the app can&apos;t read — it may have been updated.
+            </p>
+            <p className="mt-0.5 truncate font-mono text-[11px] text-red-500/60" title={backendIncompatible}>
+              {backendIncompatible}
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* ── Main workspace ── */}
       <div className="flex flex-1 overflow-hidden">
         {/* Left sidebar: History */}
@@ -389,24 +737,19 @@ export default function DashboardPage() {
               Explore
             </button>
           </div>
-          <div className="flex-1 overflow-y-auto px-3">
-            {hasSessions ? (
-              <ul className="space-y-1">
-                {sessions.map((sid) => (
-                  <li key={sid}>
-                    <button
-                      onClick={() => handleSelectSession(sid)}
-                      className={`flex w-full items-center gap-2.5 rounded-lg px-3.5 py-3 text-left transition-colors ${
-                        activeSession === sid ? "bg-black/8 text-black/85" : "text-black/50 hover:bg-black/4 hover:text-black/70"
-                      }`}
-                    >
-                      <MessageSquare size={15} strokeWidth={1.8} className="shrink-0 opacity-50" />
-                      <span className="block truncate text-[13px] font-semibold">Interaction {sid.slice(0, 8)}</span>
-                    </button>
-                  </li>
-                ))}
-              </ul>
-            ) : (
+          {hasSessions && uid ? (
+            <SessionHistory
+              uid={uid}
+              sessions={sessions}
+              activeSession={activeSession}
+              compareSession={compareSession}
+              onSelect={handleSelectSession}
+              onCompare={setCompareSession}
+              onRename={renameSession}
+              onDelete={handleDeleteSession}
+            />
+          ) : (
+            <div className="flex-1 overflow-y-auto px-3">
               <div className="flex h-full flex-col items-center justify-center px-6 text-center">
                 <Upload size={32} strokeWidth={1.3} className="mb-4 text-black/15" />
                 <p className="text-[14px] font-semibold text-black/30">No history yet</p>
@@ -418,8 +761,8 @@ export default function DashboardPage() {
                   to start
                 </p>
               </div>
-            )}
-          </div>
+            </div>
+          )}
         </aside>
 
         {/* Center: 3D Viewer */}
@@ -432,6 +775,16 @@ export default function DashboardPage() {
                   <Loader2 size={14} className="animate-spin text-black/40" />
                   <span className="text-[13px] font-semibold text-black/50">{phaseLabel(phase)}</span>
                   {progressText && <span className="text-[13px] font-medium text-black/30">— {progressText}</span>}
+                  {busy && (
+                    <button
+                      onClick={handleStop}
+                      className="ml-2 flex items-center gap-1.5 rounded-md bg-black/5 px-2.5 py-1 text-[12px] font-semibold text-black/50 transition-colors hover:bg-black/10 hover:text-black/75"
+                      title="Stop"
+                    >
+                      <Square size={10} strokeWidth={2.5} className="fill-current" />
+                      Stop
+                    </button>
+                  )}
                 </div>
               ) : segmentResult ? (
                 <div className="flex w-full items-center justify-between animate-fade-in">
@@ -446,10 +799,72 @@ export default function DashboardPage() {
                         {count} {type}
                       </span>
                     ))}
+                    {previousRun && (
+                      <button
+                        onClick={() => setShowRunDiff((v) => !v)}
+                        className={`rounded-md px-1.5 py-0.5 text-[12px] font-medium transition-colors ${
+                          showRunDiff ? "bg-black/8 text-black/55" : "text-black/30 hover:bg-black/5 hover:text-black/55"
+                        }`}
+                        title={`${showRunDiff ? "Hide" : "Show"} the diff against the previous run${previousRun.params ? ` (${describeParams(previousRun.params)})` : ""}`}
+                      >
+                        (was {previousRun.result.summary.total_segments})
+                      </button>
+                    )}
+                    {selectedIds.length > 0 && (
+                      <span className="flex items-center gap-1 rounded-md bg-[#FFE650]/30 py-0.5 pr-1 pl-2 text-[12px] font-semibold text-black/55">
+                        {selectedIds.length} selected
+                        <button
+                          onClick={() => meshViewerRef.current?.setSelection([])}
+                          className="flex h-4 w-4 items-center justify-center rounded text-black/35 hover:bg-black/5 hover:text-black/60"
+                          title="Clear selection"
+                        >
+                          <X size={11} strokeWidth={2.5} />
+                        </button>
+                      </span>
+                    )}
                   </div>
 
                   {/* Right: viewer controls */}
                   <div className="flex items-center gap-2">
+                    {/* Segmentation settings */}
+                    <button
+                      onClick={() => setShowSegSettings((v) => !v)}
+                      className={`flex h-7 w-7 items-center justify-center rounded-md transition-colors ${
+                        showSegSettings ? "bg-black/8 text-black/60" : "text-black/35 hover:bg-black/5 hover:text-black/60"
+                      }`}
+                      title="Segmentation settings"
+                    >
+                      <SlidersHorizontal size={14} strokeWidth={2} />
+                    </button>
+
+                    {/* Screenshot / turntable */}
+                    <CaptureMenu
+                      getViewer={() => meshViewerRef.current}
+                      baseName={exportBaseName(sessionDisplayName(sessionById(activeSession)))}
+                    />
+
+                    {/* Export */}
+                    {uid && (
+                      <ExportMenu
+                        uid={uid}
+                        sessionId={activeSession}
+                        result={segmentResult}
+                        baseName={exportBaseName(sessionDisplayName(sessionById(activeSession)))}
+                      />
+                    )}
+
+                    {/* Read-only share links */}
+                    {uid && (
+                      <ShareMenu
+                        uid={uid}
+                        sessionId={activeSession}
+                        highlightIds={highlightIds}
+                        getViewer={() => meshViewerRef.current}
+                      />
+                    )}
+
+                    <div className="mx-1 h-4 w-px bg-black/8" />
+
                     {/* Opacity slider */}
                     <div className="flex items-center gap-2">
                       <span className="text-[11px] font-medium text-black/30">Opacity</span>
@@ -530,45 +945,135 @@ export default function DashboardPage() {
                 </div>
               ) : (
                 /* Session loaded but no segments — ready for queries */
-                <span className="text-[13px] font-medium text-black/25">Ready</span>
+                <div className="flex w-full items-center justify-between">
+                  <span className="text-[13px] font-medium text-black/25">Ready</span>
+                  <button
+                    onClick={() => setShowSegSettings((v) => !v)}
+                    className="flex items-center gap-1.5 rounded-md px-2 py-1 text-[12px] font-semibold text-black/40 transition-colors hover:bg-black/5 hover:text-black/65"
+                  >
+                    <SlidersHorizontal size={13} strokeWidth={2} />
+                    Segment…
+                  </button>
+                </div>
               )}
             </div>
           )}
 
-          {/* Viewer area */}
-          <div ref={viewerContainerRef} className="relative flex flex-1 items-center justify-center overflow-hidden bg-[#F8F8F6]">
-            {activeSession && uid ? (
-              <div className={`h-full w-full transition-opacity duration-500 ${sessionReady ? "opacity-100" : "opacity-0"}`}>
-                <MeshViewer
-                  ref={meshViewerRef}
-                  uid={uid}
-                  sessionId={activeSession}
-                  segmentResult={segmentResult}
+          {activeSession && uid && compareSession ? (
+            <SessionCompare
+              key={`${activeSession}:${compareSession}`}
+              uid={uid}
+              sessionA={sessionById(activeSession)}
+              resultA={segmentResult}
+              sessionB={sessionById(compareSession)}
+              opacity={meshOpacity}
+              onClose={() => setCompareSession(null)}
+            />
+          ) : (
+            <>
+              {/* Viewer area */}
+              <div ref={viewerContainerRef} className="relative flex flex-1 items-center justify-center overflow-hidden bg-[#F8F8F6]">
+                {activeSession && showSegSettings && (
+                  <div className="absolute top-4 right-4 z-30">
+                    <SegmentationSettings
+                      key={activeSession}
+                      sessionId={activeSession}
+                      current={segParams}
+                      hasResult={!!segmentResult}
+                      running={processing && !isAnswering(phase)}
+                      onRun={handleResegment}
+                      onClose={() => setShowSegSettings(false)}
+                    />
+                  </div>
+                )}
+                {runDiff && previousRun && (
+                  <div className="absolute right-4 bottom-4 left-4 z-30 max-h-[45%] overflow-y-auto rounded-xl border border-black/8 bg-[#F7F7F5]/95 shadow-lg backdrop-blur-md animate-fade-in">
+                    <div className="flex items-center gap-3 border-b border-black/6 px-6 py-2.5 text-[12px]">
+                      <span className="font-semibold text-black/60">
+                        <span className="text-black/30">A</span> previous run
+                        {previousRun.params && <span className="font-medium text-black/35"> · {describeParams(previousRun.params)}</span>}
+                      </span>
+                      <span className="text-black/25">↔</span>
+                      <span className="font-semibold text-black/60">
+                        <span className="text-black/30">B</span> current run
+                        {segParams && <span className="font-medium text-black/35"> · {describeParams(segParams)}</span>}
+                      </span>
+                      <button
+                        onClick={() => setShowRunDiff(false)}
+                        className="ml-auto flex h-6 w-6 items-center justify-center rounded text-black/35 hover:bg-black/5 hover:text-black/60"
+                        title="Close diff"
+                      >
+                        <X size={12} />
+                      </button>
+                    </div>
+                    <SegmentationDiffTables diff={runDiff} onFocus={handleRunDiffFocus} onFocusType={handleRunDiffFocusType} />
+                  </div>
+                )}
+                {activeSession && uid ? (
+                  <div className={`h-full w-full transition-opacity duration-500 ${sessionReady ? "opacity-100" : "opacity-0"}`}>
+                    <MeshViewer
+                      ref={attachMeshViewer}
+                      uid={uid}
+                      sessionId={activeSession}
+                      segmentResult={segmentResult}
+                      highlightIds={highlightIds}
+                      processing={processing}
+                      opacity={meshOpacity}
+                      onLoadError={noteIncompatible}
+                      autoRotate={autoRotate}
+                      initialCamera={urlCamera ?? undefined}
+                    />
+                  </div>
+                ) : (
+                  <div className="text-center animate-fade-in">
+                    <Box size={64} strokeWidth={0.8} className="mx-auto mb-5 text-black/8" />
+                    <p className="text-[16px] font-semibold text-black/30">Select from history or start a new exploration</p>
+                    <button
+                      onClick={() => setShowNewModal(true)}
+                      className="mt-5 rounded-full border border-black/12 px-6 py-2.5 text-[14px] font-semibold text-black/55 transition-colors hover:border-black/25 hover:text-black/80"
+                    >
+                      + Explore
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {/* Segment inspector — rows share the viewer's selection */}
+              {activeSession && segmentResult && segmentResult.segments.length > 0 && (
+                <SegmentInspector
+                  segments={segmentResult.segments}
+                  selectedIds={selectedIds}
                   highlightIds={highlightIds}
-                  processing={processing}
-                  opacity={meshOpacity}
+                  hiddenTypes={hiddenTypes}
+                  onHiddenTypesChange={setHiddenTypes}
+                  onSelectionChange={(ids) => meshViewerRef.current?.setSelection(ids)}
+                  onZoomToSegment={(id) => meshViewerRef.current?.zoomToSegment(id)}
                 />
-              </div>
-            ) : (
-              <div className="text-center animate-fade-in">
-                <Box size={64} strokeWidth={0.8} className="mx-auto mb-5 text-black/8" />
-                <p className="text-[16px] font-semibold text-black/30">Select from history or start a new exploration</p>
-                <button
-                  onClick={() => setShowNewModal(true)}
-                  className="mt-5 rounded-full border border-black/12 px-6 py-2.5 text-[14px] font-semibold text-black/55 transition-colors hover:border-black/25 hover:text-black/80"
-                >
-                  + Explore
-                </button>
-              </div>
-            )}
-          </div>
+              )}
+
+              {/* Pipeline timeline — every run of this session, kept across reloads */}
+              {activeSession && runs.length > 0 && <PipelineTimeline runs={runs} />}
+            </>
+          )}
         </main>
 
         {/* Right sidebar: Chat */}
         <aside className="flex w-96 shrink-0 flex-col border-l border-black/8 bg-[#F7F7F5]">
           <div className="flex h-12 items-center justify-between border-b border-black/8 px-5">
             <h2 className="text-[13px] font-semibold tracking-wide text-black/50 uppercase">Chat</h2>
-            {processing && <Loader2 size={13} className="animate-spin text-black/30" />}
+            <div className="flex items-center gap-2">
+              {processing && <Loader2 size={13} className="animate-spin text-black/30" />}
+              {activeSession && (
+                <TranscriptMenu
+                  messages={messages}
+                  title={sessionDisplayName(sessionById(activeSession))}
+                  sessionId={activeSession}
+                  result={segmentResult}
+                  getViewer={() => meshViewerRef.current}
+                  baseName={exportBaseName(sessionDisplayName(sessionById(activeSession)))}
+                />
+              )}
+            </div>
           </div>
 
           <div className="flex flex-1 flex-col overflow-y-auto px-4 py-4">
@@ -584,24 +1089,64 @@ export default function DashboardPage() {
                         {msg.text}
                       </div>
                     ) : msg.role === "user" ? (
-                      <div className="max-w-[85%] rounded-2xl bg-black/7 px-4 py-3 text-[14px] font-medium leading-relaxed text-black/80">
-                        {msg.text}
+                      <div className="flex max-w-[85%] flex-col items-end gap-1">
+                        <div className="rounded-2xl bg-black/7 px-4 py-3 text-[14px] font-medium leading-relaxed text-black/80">
+                          {msg.text}
+                        </div>
+                        {msg.context && (msg.context.selected_ids ?? msg.context.highlighted_ids) && (
+                          <span className="flex items-center gap-1 pr-1 text-[11px] font-medium text-black/30">
+                            <MousePointerClick size={10} />
+                            About #{(msg.context.selected_ids ?? msg.context.highlighted_ids)!.join(", #")}
+                          </span>
+                        )}
                       </div>
                     ) : (
-                      <div className="prose-chat max-w-[85%] rounded-2xl border border-black/8 bg-white px-4 py-3">
-                        <ReactMarkdown>{msg.text}</ReactMarkdown>
+                      <div className="flex max-w-[90%] flex-col gap-1.5">
+                        <div className="prose-chat rounded-2xl border border-black/8 bg-white px-4 py-3">
+                          <ReactMarkdown>{msg.text}</ReactMarkdown>
+                        </div>
+                        {msg.toolCalls?.map((call, j) => (
+                          <ToolCallCard key={j} call={call} onHighlight={setHighlightIds} />
+                        ))}
                       </div>
                     )}
                   </div>
                 ))}
-                {(phase === "parsing_query" || phase === "tool_call") && (
-                  <div className="flex justify-start">
-                    <div className="flex items-center gap-2 rounded-2xl border border-black/8 bg-white px-4 py-3">
-                      <Loader2 size={14} className="animate-spin text-black/30" />
-                      <span className="text-[13px] font-medium text-black/35">{progressText || "Thinking…"}</span>
+                {liveAnswers.map((live) => (
+                  <div key={live.request_id} className="flex justify-start">
+                    <div className="flex max-w-[90%] flex-col gap-1.5">
+                      {liveAnswers.length > 1 && (
+                        <span className="truncate pl-1 text-[11px] font-medium text-black/30">Re: {live.query}</span>
+                      )}
+                      {live.text ? (
+                        <div className="prose-chat rounded-2xl border border-black/8 bg-white px-4 py-3">
+                          <ReactMarkdown>{live.text}</ReactMarkdown>
+                          {live.status === "streaming" ? (
+                            <span className="ml-0.5 inline-block h-3.5 w-1.5 animate-pulse bg-black/30 align-middle" />
+                          ) : (
+                            <p className="mt-1 text-[12px] font-medium text-black/35">Answer interrupted — connection lost.</p>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-2 self-start rounded-2xl border border-black/8 bg-white px-4 py-3">
+                          <Loader2 size={14} className="animate-spin text-black/30" />
+                          <span className="text-[13px] font-medium text-black/35">
+                            {liveAnswers.length === 1 && progressText ? progressText : "Thinking…"}
+                          </span>
+                        </div>
+                      )}
+                      {live.toolCalls.map((call) => (
+                        <ToolCallCard
+                          key={call.call_id}
+                          call={call}
+                          status={call.status}
+                          error={call.error}
+                          onHighlight={setHighlightIds}
+                        />
+                      ))}
                     </div>
                   </div>
-                )}
+                ))}
                 <div ref={messagesEndRef} />
               </div>
             ) : activeSession ? (
@@ -618,6 +1163,19 @@ export default function DashboardPage() {
           </div>
 
           <div className="border-t border-black/8 p-4">
+            {activeSession && contextIds.length > 0 && (
+              <button
+                onClick={() => setAskAboutSelection((v) => !v)}
+                title="Send the selected segments, type filter and camera direction with your question"
+                className={`mb-2 flex items-center gap-1.5 rounded-md px-2.5 py-1 text-[12px] font-semibold transition-colors ${
+                  selectionAttached ? "bg-[#FFE650]/40 text-black/70" : "bg-black/4 text-black/40 hover:bg-black/8 hover:text-black/60"
+                }`}
+              >
+                <MousePointerClick size={12} strokeWidth={2} />
+                Ask about {selectedIds.length ? "selection" : "highlighted"} ({contextIds.length})
+                {selectionAttached && <Check size={12} strokeWidth={2.5} />}
+              </button>
+            )}
             <div className="flex items-center gap-2 rounded-xl border border-black/10 bg-white px-4 py-3">
               <input
                 ref={chatInputRef}
@@ -625,13 +1183,27 @@ export default function DashboardPage() {
                 value={chatInput}
                 onChange={(e) => setChatInput(e.target.value)}
                 onKeyDown={handleKeyDown}
-                placeholder={!activeSession ? "Start an exploration first…" : processing ? "Processing…" : "Ask about your mesh…"}
-                disabled={!activeSession || processing}
+                placeholder={
+                  !activeSession ? "Start an exploration first…"
+                    : chatBlocked ? "Processing…"
+                    : selectionAttached ? `Ask about ${contextIds.length === 1 ? "this segment" : `these ${contextIds.length} segments`}…`
+                    : "Ask about your mesh…"
+                }
+                disabled={!activeSession || chatBlocked}
                 className="flex-1 bg-transparent text-[14px] font-medium text-black/80 outline-none placeholder-black/30 disabled:cursor-not-allowed"
               />
+              {busy && (
+                <button
+                  onClick={handleStop}
+                  title="Stop"
+                  className="flex h-8 w-8 items-center justify-center rounded-lg bg-black/6 text-black/45 transition-colors hover:bg-black/12 hover:text-black/70"
+                >
+                  <Square size={12} strokeWidth={2.5} className="fill-current" />
+                </button>
+              )}
               <button
                 onClick={handleSendMessage}
-                disabled={!activeSession || !chatInput.trim() || processing}
+                disabled={!activeSession || !chatInput.trim() || chatBlocked}
                 className="flex h-8 w-8 items-center justify-center rounded-lg bg-black/6 text-black/30 transition-colors hover:bg-black/12 hover:text-black/60 disabled:cursor-not-allowed disabled:opacity-30"
               >
                 <ArrowUp size={16} strokeWidth={2.5} />
@@ -732,14 +1304,32 @@ export default function DashboardPage() {
                 modalDragging ? "border-black/30 bg-black/4" : modalFile ? "border-black/15 bg-black/3" : "border-black/12 hover:border-black/25 hover:bg-black/2"
               }`}
             >
-              <input ref={fileInputRef} type="file" accept=".msh,.obj,.stl,.vtk,.ply" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) setModalFile(f); }} />
+              <input ref={fileInputRef} type="file" accept={MESH_ACCEPT} className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) selectModalFile(f); }} />
               {modalFile ? (
                 <>
-                  <div className="mb-3 flex h-12 w-12 items-center justify-center rounded-full bg-green-100">
-                    <Check size={24} strokeWidth={2} className="text-green-600" />
-                  </div>
+                  {modalParsing ? (
+                    <div className="mb-3 flex h-12 w-12 items-center justify-center rounded-full bg-black/5">
+                      <Loader2 size={22} strokeWidth={2} className="animate-spin text-black/35" />
+                    </div>
+                  ) : modalParseError ? (
+                    <div className="mb-3 flex h-12 w-12 items-center justify-center rounded-full bg-red-100">
+                      <X size={24} strokeWidth={2} className="text-red-500" />
+                    </div>
+                  ) : (
+                    <div className="mb-3 flex h-12 w-12 items-center justify-center rounded-full bg-green-100">
+                      <Check size={24} strokeWidth={2} className="text-green-600" />
+                    </div>
+                  )}
                   <p className="text-[16px] font-bold text-black/75">{modalFile.name}</p>
-                  <p className="mt-1 text-[13px] font-medium text-black/35">{(modalFile.size / 1024).toFixed(1)} KB — click to change</p>
+                  <p className="mt-1 text-[13px] font-medium text-black/35">
+                    {(modalFile.size / 1024).toFixed(1)} KB
+                    {modalParsing && <> — reading file…</>}
+                    {modalMesh && <> — {modalMesh.graph.numNodes.toLocaleString()} nodes, {modalMesh.graph.numEdges.toLocaleString()} edges</>}
+                    {" "}— click to change
+                  </p>
+                  {modalParseError && (
+                    <p className="mt-2 max-w-md text-center text-[13px] font-semibold text-red-500">{modalParseError}</p>
+                  )}
                 </>
               ) : (
                 <>
@@ -747,11 +1337,18 @@ export default function DashboardPage() {
                     <Upload size={26} strokeWidth={1.8} className="text-black/30" />
                   </div>
                   <p className="text-[16px] font-bold text-black/50">Drop a mesh file or click to browse</p>
-                  <p className="mt-2 text-[13px] font-medium text-black/25">formats: .msh &nbsp;</p>
+                  <p className="mt-2 text-[13px] font-medium text-black/25">formats: {MESH_ACCEPT.split(",").join(" ")}</p>
                 </>
               )}
             </div>
 
+            {/* ── Local preview of the parsed mesh ── */}
+            {modalMesh && (
+              <div className="-mt-4 mb-8 h-56 overflow-hidden rounded-2xl border border-black/8 bg-[#F8F8F6]">
+                <MeshPreview graph={modalMesh.graph} />
+              </div>
+            )}
+
             {/* ── Or pick a sample ── */}
             <div className="mb-8">
               <div className="mb-3 flex items-center gap-3">
@@ -804,7 +1401,7 @@ export default function DashboardPage() {
               <button onClick={closeModal} className="rounded-xl px-6 py-3 text-[15px] font-semibold text-black/40 transition-colors hover:text-black/70">Cancel</button>
               <button
                 onClick={handleCreateInteraction}
-                disabled={!modalFile || modalLoading}
+                disabled={!modalFile || modalParsing || !!modalParseError || modalLoading}
                 className="rounded-xl bg-[#111] px-8 py-3 text-[15px] font-bold text-white transition-all hover:bg-black disabled:opacity-30"
               >
                 {modalLoading ? (
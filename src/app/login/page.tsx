@@ -3,6 +3,7 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { login } from "@/lib/api";
+import { isIncompatibleError } from "@/lib/schema";
 
 export default function LoginPage() {
   const router = useRouter();
@@ -36,8 +37,8 @@ export default function LoginPage() {
         setTimeout(() => {
           router.push("/dashboard");
         }, 600);
-      } catch {
-        setStatus("Something went wrong. Please refresh.");
+      } catch (err) {
+        setStatus(isIncompatibleError(err) ? err.message : "Something went wrong. Please refresh.");
       }
     }
 
@@ -0,0 +1,239 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useParams } from "next/navigation";
+import dynamic from "next/dynamic";
+import Link from "next/link";
+import ReactMarkdown from "react-markdown";
+import { Eye, Link2Off, Loader2, RotateCcw, ScanEye, X, ZoomIn, ZoomOut } from "lucide-react";
+import { getSharedSession, sessionDisplayName, type SharedSession } from "@/lib/api";
+import { isIncompatibleError } from "@/lib/schema";
+import { SEGMENT_COLORS, type MeshViewerHandle } from "@/components/meshConstants";
+
+const MeshViewer = dynamic(() => import("@/components/MeshViewer"), { ssr: false });
+
+/** Keyed by token — "loading" until it matches the route */
+type ShareLoad =
+  | { token: string; status: "ready"; shared: SharedSession }
+  | { token: string; status: "missing" }
+  | { token: string; status: "error"; message: string };
+
+function segColorStyle(type: string) {
+  const c = SEGMENT_COLORS[type];
+  if (!c) return {};
+  return { backgroundColor: `rgb(${c[0]}, ${c[1]}, ${c[2]})` };
+}
+
+/** Read-only view of a shared session — no sign-in, no uploads, no questions */
+export default function SharePage() {
+  const { token } = useParams<{ token: string }>();
+  const [load, setLoad] = useState<ShareLoad | null>(null);
+  const [meshOpacity, setMeshOpacity] = useState(0.4);
+  // Starts at the shared highlights; clearing them only affects this page
+  const [highlightOverride, setHighlightOverride] = useState<number[] | null>(null);
+  const viewerRef = useRef<MeshViewerHandle | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    getSharedSession(token)
+      .then((shared) => {
+        if (cancelled) return;
+        setLoad(shared ? { token, status: "ready", shared } : { token, status: "missing" });
+        if (shared) console.log("[Share] 🔗 opened shared session", shared.session.session_id);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("[Share] ❌", err);
+        setLoad({ token, status: "error", message: isIncompatibleError(err) ? err.message : "Could not load this shared session." });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const current = load?.token === token ? load : null;
+  const shared = current?.status === "ready" ? current.shared : null;
+  const highlightIds = highlightOverride ?? shared?.highlight_ids ?? [];
+
+  if (!shared) {
+    return (
+      <div className="flex h-screen flex-col items-center justify-center gap-3 bg-[#FDFDFB] font-sans text-[#111]">
+        {!current ? (
+          <>
+            <Loader2 size={20} className="animate-spin text-black/30" />
+            <p className="text-[14px] font-medium text-black/35">Loading shared session…</p>
+          </>
+        ) : current.status === "missing" ? (
+          <>
+            <Link2Off size={32} strokeWidth={1.3} className="text-black/15" />
+            <p className="text-[15px] font-semibold text-black/40">This link has been revoked or doesn&apos;t exist</p>
+            <p className="text-[13px] text-black/25">Ask whoever shared it for a new one.</p>
+          </>
+        ) : (
+          <p className="max-w-md text-center text-[14px] font-medium text-red-400">{current.status === "error" && current.message}</p>
+        )}
+        <Link href="/" className="mt-4 text-[13px] font-bold tracking-widest text-black/40 uppercase hover:text-black/70">
+          shape
+        </Link>
+      </div>
+    );
+  }
+
+  const segments = shared.segments ?? null;
+
+  return (
+    <div className="flex h-screen flex-col bg-[#FDFDFB] font-sans text-[#111]">
+      {/* ── Top bar ── */}
+      <header className="flex h-13 shrink-0 items-center justify-between border-b border-black/8 px-6">
+        <div className="flex min-w-0 items-center gap-3">
+          <Link href="/" className="text-[15px] font-bold tracking-widest text-black/85 uppercase transition-colors hover:text-black">
+            shape
+          </Link>
+          <span className="text-black/20">/</span>
+          <span className="truncate text-[14px] font-semibold text-black/60">{sessionDisplayName(shared.session)}</span>
+        </div>
+        <span className="flex shrink-0 items-center gap-1.5 rounded-md bg-black/4 px-2.5 py-1 text-[12px] font-semibold text-black/45">
+          <Eye size={12} />
+          Read-only
+        </span>
+      </header>
+
+      <div className="flex flex-1 overflow-hidden">
+        {/* Center: 3D Viewer */}
+        <main className="flex flex-1 flex-col bg-[#FDFDFB]">
+          <div className="flex h-12 shrink-0 items-center justify-between border-b border-black/6 bg-[#F7F7F5] px-6">
+            {/* Left: segment legend */}
+            <div className="flex flex-wrap items-center gap-3">
+              {segments ? (
+                <>
+                  <span className="text-[13px] font-bold text-black/60">{segments.summary.total_segments} segments</span>
+                  {Object.entries(segments.summary.counts_by_type).map(([type, count]) => (
+                    <span key={type} className="flex items-center gap-1.5 text-[12px] font-semibold text-black/50">
+                      <span className="inline-block h-2.5 w-2.5 rounded-full" style={segColorStyle(type)} />
+                      {count} {type}
+                    </span>
+                  ))}
+                </>
+              ) : (
+                <span className="text-[13px] font-medium text-black/25">Not segmented</span>
+              )}
+              {highlightIds.length > 0 && (
+                <span className="flex items-center gap-1 rounded-md bg-[#FFE650]/30 py-0.5 pr-1 pl-2 text-[12px] font-semibold text-black/55">
+                  {highlightIds.length} highlighted
+                  <button
+                    onClick={() => setHighlightOverride([])}
+                    className="flex h-4 w-4 items-center justify-center rounded text-black/35 hover:bg-black/5 hover:text-black/60"
+                    title="Clear highlights"
+                  >
+                    <X size={11} strokeWidth={2.5} />
+                  </button>
+                </span>
+              )}
+            </div>
+
+            {/* Right: viewer controls */}
+            <div className="flex items-center gap-2">
+              <div className="flex items-center gap-2">
+                <span className="text-[11px] font-medium text-black/30">Opacity</span>
+                <input
+                  type="range"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  value={meshOpacity}
+                  onChange={(e) => setMeshOpacity(parseFloat(e.target.value))}
+                  className="h-1 w-20 cursor-pointer accent-black/40"
+                />
+              </div>
+
+              <div className="mx-1 h-4 w-px bg-black/8" />
+
+              <button
+                onClick={() => viewerRef.current?.zoomIn()}
+                className="flex h-7 w-7 items-center justify-center rounded-md text-black/35 transition-colors hover:bg-black/5 hover:text-black/60"
+                title="Zoom in"
+              >
+                <ZoomIn size={15} strokeWidth={2} />
+              </button>
+              <button
+                onClick={() => viewerRef.current?.zoomOut()}
+                className="flex h-7 w-7 items-center justify-center rounded-md text-black/35 transition-colors hover:bg-black/5 hover:text-black/60"
+                title="Zoom out"
+              >
+                <ZoomOut size={15} strokeWidth={2} />
+              </button>
+              <button
+                onClick={() => viewerRef.current?.resetCamera()}
+                className="flex h-7 w-7 items-center justify-center rounded-md text-black/35 transition-colors hover:bg-black/5 hover:text-black/60"
+                title="Reset view"
+              >
+                <RotateCcw size={14} strokeWidth={2} />
+              </button>
+              {shared.camera && (
+                <button
+                  onClick={() => {
+                    if (shared.camera) viewerRef.current?.setCamera(shared.camera);
+                    setHighlightOverride(null);
+                  }}
+                  className="flex h-7 items-center gap-1.5 rounded-md px-2 text-[11px] font-medium text-black/35 transition-colors hover:bg-black/5 hover:text-black/60"
+                  title="Back to the shared view"
+                >
+                  <ScanEye size={13} strokeWidth={2} />
+                  Shared view
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="relative flex flex-1 items-center justify-center overflow-hidden bg-[#F8F8F6]">
+            <div className="h-full w-full">
+              <MeshViewer
+                ref={viewerRef}
+                uid=""
+                sessionId={shared.session.session_id}
+                shareToken={token}
+                segmentResult={segments}
+                highlightIds={highlightIds}
+                processing={false}
+                opacity={meshOpacity}
+                autoRotate={false}
+                initialCamera={shared.camera}
+              />
+            </div>
+          </div>
+        </main>
+
+        {/* Right sidebar: Chat (read-only) */}
+        <aside className="flex w-96 shrink-0 flex-col border-l border-black/8 bg-[#F7F7F5]">
+          <div className="flex h-12 items-center border-b border-black/8 px-5">
+            <h2 className="text-[13px] font-semibold tracking-wide text-black/50 uppercase">Chat</h2>
+          </div>
+          <div className="flex flex-1 flex-col overflow-y-auto px-4 py-4">
+            {shared.chat.length > 0 ? (
+              <div className="flex flex-col gap-3">
+                {shared.chat.map((msg, i) => (
+                  <div key={i} className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}>
+                    {msg.role === "user" ? (
+                      <div className="max-w-[85%] rounded-2xl bg-black/7 px-4 py-3 text-[14px] font-medium leading-relaxed text-black/80">
+                        {msg.content}
+                      </div>
+                    ) : (
+                      <div className="prose-chat max-w-[90%] rounded-2xl border border-black/8 bg-white px-4 py-3">
+                        <ReactMarkdown>{msg.content}</ReactMarkdown>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="flex flex-1 items-center justify-center">
+                <p className="text-[13px] font-medium text-black/25">No conversation in this session</p>
+              </div>
+            )}
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
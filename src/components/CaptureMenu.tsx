@@ -0,0 +1,214 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Camera, Image as ImageIcon, Film, Loader2, Square } from "lucide-react";
+import { isAbortError } from "@/lib/abort";
+import { downloadBlob } from "@/lib/exportResults";
+import { canRecordWebm, type TurntableFormat } from "@/lib/viewerCapture";
+import type { CaptureOptions, MeshViewerHandle } from "./meshConstants";
+
+const IMAGE_SIZES = [
+  { label: "1280 × 720", width: 1280, height: 720 },
+  { label: "1920 × 1080", width: 1920, height: 1080 },
+  { label: "2048 × 2048", width: 2048, height: 2048 },
+  { label: "3840 × 2160", width: 3840, height: 2160 },
+];
+
+const BACKGROUNDS: { label: string; value: CaptureOptions["background"] }[] = [
+  { label: "Viewer", value: "viewer" },
+  { label: "White", value: [255, 255, 255] },
+  { label: "Transparent", value: "transparent" },
+];
+
+const TURNTABLE_SECONDS = [6, 12, 20];
+
+/** GIFs get big fast — keep them smaller than video */
+const TURNTABLE_WIDTH: Record<TurntableFormat, number> = { webm: 1280, gif: 480 };
+
+interface CaptureMenuProps {
+  getViewer: () => MeshViewerHandle | null;
+  /** File name without extension */
+  baseName: string;
+}
+
+/** Screenshot and turntable downloads for the viewer */
+export default function CaptureMenu({ getViewer, baseName }: CaptureMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [sizeIndex, setSizeIndex] = useState(1);
+  const [backgroundIndex, setBackgroundIndex] = useState(0);
+  const [legend, setLegend] = useState(true);
+  const [format, setFormat] = useState<TurntableFormat>(() => (canRecordWebm() ? "webm" : "gif"));
+  const [seconds, setSeconds] = useState(12);
+  const [capturing, setCapturing] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState("");
+  const recordingRef = useRef<AbortController | null>(null);
+
+  const recording = progress !== null;
+  const busy = capturing || recording;
+
+  async function handleCapture() {
+    const viewer = getViewer();
+    if (!viewer) return;
+    const size = IMAGE_SIZES[sizeIndex];
+    setCapturing(true);
+    setError("");
+    try {
+      const blob = await viewer.captureImage({ ...size, background: BACKGROUNDS[backgroundIndex].value, legend });
+      downloadBlob(blob, `${baseName}-${size.width}x${size.height}.png`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setCapturing(false);
+    }
+  }
+
+  async function handleRecord() {
+    const viewer = getViewer();
+    if (!viewer) return;
+    const controller = new AbortController();
+    recordingRef.current = controller;
+    setProgress(0);
+    setError("");
+    try {
+      const blob = await viewer.recordTurntable({
+        format,
+        seconds,
+        width: TURNTABLE_WIDTH[format],
+        legend,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      downloadBlob(blob, `${baseName}-turntable.${format}`);
+    } catch (err) {
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      recordingRef.current = null;
+      setProgress(null);
+    }
+  }
+
+  const chip = (active: boolean) =>
+    `rounded-md px-2 py-1 text-[12px] font-semibold transition-colors ${
+      active ? "bg-black/10 text-black/75" : "bg-black/4 text-black/45 hover:bg-black/8 hover:text-black/65"
+    }`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={`flex h-7 w-7 items-center justify-center rounded-md transition-colors ${
+          open || recording ? "bg-black/8 text-black/60" : "text-black/35 hover:bg-black/5 hover:text-black/60"
+        }`}
+        title={recording ? "Recording…" : "Screenshot / turntable"}
+      >
+        {recording ? <Loader2 size={14} className="animate-spin" /> : <Camera size={14} strokeWidth={2} />}
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute top-9 right-0 z-50 w-80 rounded-xl border border-black/8 bg-white/95 shadow-lg backdrop-blur-md animate-fade-in">
+            {/* Screenshot */}
+            <div className="flex flex-col gap-2.5 px-4 py-3.5">
+              <p className="text-[11px] font-bold tracking-wider text-black/30 uppercase">Screenshot</p>
+              <div className="flex items-center gap-2">
+                <span className="w-20 text-[12px] font-semibold text-black/50">Size</span>
+                <select
+                  value={sizeIndex}
+                  onChange={(e) => setSizeIndex(Number(e.target.value))}
+                  className="flex-1 rounded-md border border-black/10 bg-white px-1.5 py-1 text-[12px] font-medium text-black/60 outline-none"
+                >
+                  {IMAGE_SIZES.map((s, i) => (
+                    <option key={s.label} value={i}>{s.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-20 text-[12px] font-semibold text-black/50">Background</span>
+                <div className="flex gap-1">
+                  {BACKGROUNDS.map((b, i) => (
+                    <button key={b.label} onClick={() => setBackgroundIndex(i)} className={chip(i === backgroundIndex)}>
+                      {b.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <button
+                onClick={handleCapture}
+                disabled={busy}
+                className="flex items-center justify-center gap-1.5 rounded-lg bg-black/80 px-3 py-1.5 text-[12px] font-semibold text-white transition-colors hover:bg-black disabled:cursor-not-allowed disabled:opacity-30"
+              >
+                {capturing ? <Loader2 size={12} className="animate-spin" /> : <ImageIcon size={12} />}
+                Save PNG
+              </button>
+            </div>
+
+            {/* Turntable */}
+            <div className="flex flex-col gap-2.5 border-t border-black/6 px-4 py-3.5">
+              <p className="text-[11px] font-bold tracking-wider text-black/30 uppercase">Turntable</p>
+              <div className="flex items-center gap-2">
+                <span className="w-20 text-[12px] font-semibold text-black/50">Format</span>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => setFormat("webm")}
+                    disabled={!canRecordWebm()}
+                    title={canRecordWebm() ? undefined : "This browser can't record video"}
+                    className={`${chip(format === "webm")} disabled:opacity-40`}
+                  >
+                    WebM
+                  </button>
+                  <button onClick={() => setFormat("gif")} className={chip(format === "gif")}>
+                    GIF
+                  </button>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-20 text-[12px] font-semibold text-black/50">One turn</span>
+                <div className="flex gap-1">
+                  {TURNTABLE_SECONDS.map((s) => (
+                    <button key={s} onClick={() => setSeconds(s)} className={chip(s === seconds)}>
+                      {s} s
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {recording ? (
+                <div className="flex items-center gap-2">
+                  <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-black/6">
+                    <div className="h-full rounded-full bg-black/50 transition-[width]" style={{ width: `${Math.round(progress * 100)}%` }} />
+                  </div>
+                  <button
+                    onClick={() => recordingRef.current?.abort()}
+                    className="flex items-center gap-1.5 rounded-md bg-black/5 px-2.5 py-1 text-[12px] font-semibold text-black/50 transition-colors hover:bg-black/10 hover:text-black/75"
+                  >
+                    <Square size={10} strokeWidth={2.5} className="fill-current" />
+                    Stop
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={handleRecord}
+                  disabled={busy}
+                  className="flex items-center justify-center gap-1.5 rounded-lg bg-black/80 px-3 py-1.5 text-[12px] font-semibold text-white transition-colors hover:bg-black disabled:cursor-not-allowed disabled:opacity-30"
+                >
+                  <Film size={12} />
+                  Record {format === "gif" ? "GIF" : "WebM"}
+                </button>
+              )}
+            </div>
+
+            {/* Shared */}
+            <div className="flex items-center justify-between border-t border-black/6 px-4 py-2.5">
+              <label className="flex cursor-pointer items-center gap-2 text-[12px] font-semibold text-black/50">
+                <input type="checkbox" checked={legend} onChange={(e) => setLegend(e.target.checked)} className="accent-black/60" />
+                Burn in legend
+              </label>
+            </div>
+            {error && <p className="px-4 pb-3 text-[11px] font-medium text-red-500/75">{error}</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import { Download, FileSpreadsheet, FileJson, Box, Loader2 } from "lucide-react";
+import { getPackedSurfaceMesh, type SegmentResult } from "@/lib/api";
+import { segmentsToCsv, resultToJson, buildVtp, downloadBlob } from "@/lib/exportResults";
+
+type ExportFormat = "csv" | "json" | "vtp";
+
+const FORMATS: { format: ExportFormat; label: string; hint: string; icon: typeof Download }[] = [
+  { format: "csv", label: "Segment table", hint: ".csv — type, length, curvature, angles, radius, nodes", icon: FileSpreadsheet },
+  { format: "json", label: "Raw result", hint: ".json — the full SegmentResult", icon: FileJson },
+  { format: "vtp", label: "ParaView", hint: ".vtp — surface + centerlines with segment arrays", icon: Box },
+];
+
+interface ExportMenuProps {
+  uid: string;
+  sessionId: string;
+  result: SegmentResult;
+  /** File name without extension */
+  baseName: string;
+}
+
+/** Download the active session's segmentation as CSV, JSON or VTK PolyData */
+export default function ExportMenu({ uid, sessionId, result, baseName }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState("");
+
+  async function handleExport(format: ExportFormat) {
+    setBusy(format);
+    setError("");
+    try {
+      if (format === "csv") {
+        downloadBlob(new Blob([segmentsToCsv(result)], { type: "text/csv" }), `${baseName}-segments.csv`);
+      } else if (format === "json") {
+        downloadBlob(new Blob([resultToJson(result)], { type: "application/json" }), `${baseName}-segments.json`);
+      } else {
+        // The surface isn't part of the result — fetch it once more for the file
+        const mesh = await getPackedSurfaceMesh(uid, sessionId);
+        downloadBlob(buildVtp(mesh, result), `${baseName}.vtp`);
+      }
+      console.log(`[Export] ✅ ${format} — ${result.segments.length} segments`);
+      setOpen(false);
+    } catch (err) {
+      console.error("[Export] ❌", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={`flex h-7 w-7 items-center justify-center rounded-md transition-colors ${
+          open ? "bg-black/8 text-black/60" : "text-black/35 hover:bg-black/5 hover:text-black/60"
+        }`}
+        title="Export results"
+      >
+        <Download size={14} strokeWidth={2} />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => !busy && setOpen(false)} />
+          <div className="absolute top-9 right-0 z-50 w-72 overflow-hidden rounded-xl border border-black/8 bg-white/95 py-1 shadow-lg backdrop-blur-md animate-fade-in">
+            <p className="px-3.5 pt-2 pb-1 text-[11px] font-bold tracking-wider text-black/30 uppercase">Export</p>
+            {FORMATS.map(({ format, label, hint, icon: Icon }) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={!!busy}
+                className="flex w-full items-start gap-2.5 px-3.5 py-2 text-left transition-colors hover:bg-black/4 disabled:opacity-50"
+              >
+                {busy === format ? (
+                  <Loader2 size={14} className="mt-0.5 shrink-0 animate-spin text-black/40" />
+                ) : (
+                  <Icon size={14} className="mt-0.5 shrink-0 text-black/40" />
+                )}
+                <span>
+                  <span className="block text-[13px] font-semibold text-black/65">{label}</span>
+                  <span className="block text-[11px] text-black/35">{hint}</span>
+                </span>
+              </button>
+            ))}
+            {error && <p className="px-3.5 py-2 text-[11px] font-medium text-red-500/75">{error}</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
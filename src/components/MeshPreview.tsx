@@ -0,0 +1,69 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { MeshGraph } from "@/lib/parsers/graph";
+
+// VTK.js imports
+import "@kitware/vtk.js/Rendering/Profiles/Geometry";
+import vtkFullScreenRenderWindow from "@kitware/vtk.js/Rendering/Misc/FullScreenRenderWindow";
+import vtkActor from "@kitware/vtk.js/Rendering/Core/Actor";
+import vtkMapper from "@kitware/vtk.js/Rendering/Core/Mapper";
+import vtkPolyData from "@kitware/vtk.js/Common/DataModel/PolyData";
+
+import { SEGMENT_COLORS } from "./meshConstants";
+
+interface MeshPreviewProps {
+  graph: MeshGraph;
+}
+
+/** Lightweight wireframe of a locally parsed mesh — shown in the upload modal before anything is sent */
+export default function MeshPreview({ graph }: MeshPreviewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!containerRef.current || graph.numNodes === 0) return;
+    containerRef.current.innerHTML = "";
+
+    const fullScreenRenderer = vtkFullScreenRenderWindow.newInstance({
+      container: containerRef.current,
+      background: [0.97, 0.97, 0.96] as [number, number, number],
+    });
+    const renderer = fullScreenRenderer.getRenderer();
+    const renderWindow = fullScreenRenderer.getRenderWindow();
+
+    // ── Edge graph as line cells ──
+    const polyData = vtkPolyData.newInstance();
+    polyData.getPoints().setData(graph.points, 3);
+
+    const numEdges = graph.edges.length / 2;
+    const lines = new Uint32Array(numEdges * 3);
+    for (let i = 0; i < numEdges; i++) {
+      lines[i * 3] = 2;
+      lines[i * 3 + 1] = graph.edges[i * 2];
+      lines[i * 3 + 2] = graph.edges[i * 2 + 1];
+    }
+    polyData.getLines().setData(lines);
+
+    const mapper = vtkMapper.newInstance();
+    mapper.setInputData(polyData);
+
+    const [r, g, b] = SEGMENT_COLORS.straight;
+    const actor = vtkActor.newInstance();
+    actor.setMapper(mapper);
+    actor.getProperty().setColor(r / 255, g / 255, b / 255);
+    actor.getProperty().setOpacity(0.8);
+    renderer.addActor(actor);
+
+    renderer.resetCamera();
+    renderer.getActiveCamera().azimuth(25);
+    renderer.getActiveCamera().elevation(15);
+    renderer.resetCameraClippingRange();
+    renderWindow.render();
+
+    return () => {
+      fullScreenRenderer.delete();
+    };
+  }, [graph]);
+
+  return <div ref={containerRef} className="relative h-full w-full" />;
+}
@@ -1,8 +1,12 @@
 "use client";
 
-import { useEffect, useRef, useState, useCallback, useImperativeHandle, forwardRef } from "react";
-import { getSurfaceMesh, type SurfaceMesh, type SegmentResult } from "@/lib/api";
-import { Loader2 } from "lucide-react";
+import { useEffect, useRef, useState, useCallback, useMemo, useImperativeHandle, forwardRef, type ReactNode } from "react";
+import type { Segment, SegmentResult } from "@/lib/api";
+import { toVtkPolys, type PackedSurfaceMesh } from "@/lib/meshBuffer";
+import { MeshWorkerClient } from "@/lib/meshWorkerClient";
+import { isAbortError } from "@/lib/abort";
+import { segmentBounds, type SceneColors } from "@/lib/sceneGeometry";
+import { Loader2, X } from "lucide-react";
 
 // VTK.js imports
 import "@kitware/vtk.js/Rendering/Profiles/Geometry";
@@ -11,12 +15,18 @@ import vtkActor from "@kitware/vtk.js/Rendering/Core/Actor";
 import vtkMapper from "@kitware/vtk.js/Rendering/Core/Mapper";
 import vtkPolyData from "@kitware/vtk.js/Common/DataModel/PolyData";
 import vtkDataArray from "@kitware/vtk.js/Common/Core/DataArray";
+import vtkCellPicker from "@kitware/vtk.js/Rendering/Core/CellPicker";
+
+import { drawLegend, loadImage, canvasToBlob, createRecorder, type LegendEntry } from "@/lib/viewerCapture";
+import { abortError } from "@/lib/abort";
 
 import {
   SEGMENT_COLORS,
   DEFAULT_MESH_COLOR,
-  HIGHLIGHT_COLOR,
   type MeshViewerHandle,
+  type CameraState,
+  type CaptureOptions,
+  type TurntableOptions,
 } from "./meshConstants";
 
 interface MeshViewerProps {
@@ -26,27 +36,146 @@ interface MeshViewerProps {
   highlightIds: number[];
   processing: boolean;
   opacity: number; // 0–1, surface mesh opacity
+  /** Mesh fetch/decode failures — the viewer shows them too */
+  onLoadError?: (err: Error) => void;
+  /** Start rotating once the mesh loads (default true) */
+  autoRotate?: boolean;
+  /** Read-only share link — the mesh is fetched by token instead of uid/session */
+  shareToken?: string;
+  /** Camera for a newly loaded mesh instead of the default fit, e.g. the view a link was shared from */
+  initialCamera?: CameraState;
+}
+
+const NO_IDS: number[] = [];
+
+/** Max pointer travel (px) between down and up that still counts as a click, not a camera drag */
+const CLICK_SLOP = 4;
+
+function formatValue(value: number | undefined, digits: number, unit = ""): string {
+  if (value === undefined || value === null || !Number.isFinite(value)) return "—";
+  return `${value.toFixed(digits)}${unit}`;
+}
+
+/* ── Picked segment details ── */
+function SegmentPopover({ segment, onClose }: { segment: Segment; onClose: () => void }) {
+  const c = SEGMENT_COLORS[segment.type];
+  const rows: [string, string][] = [
+    ["Length", formatValue(segment.length, 2)],
+    ["Mean curvature", formatValue(segment.mean_curvature, 4)],
+    ["Arc angle", formatValue(segment.arc_angle_deg, 1, "°")],
+    ["Corner angle", formatValue(segment.corner_angle_deg, 1, "°")],
+    ["Radius", formatValue(segment.radius_est, 2)],
+  ];
+  return (
+    <div className="w-56 rounded-xl border border-black/8 bg-white/95 px-4 py-3 shadow-lg backdrop-blur-md">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="flex items-center gap-2 text-[13px] font-bold text-black/70">
+          <span
+            className="inline-block h-2.5 w-2.5 rounded-full"
+            style={c ? { backgroundColor: `rgb(${c[0]}, ${c[1]}, ${c[2]})` } : undefined}
+          />
+          #{segment.segment_id} · {segment.type}
+        </span>
+        <button onClick={onClose} className="flex h-5 w-5 items-center justify-center rounded text-black/30 hover:bg-black/5 hover:text-black/60">
+          <X size={12} strokeWidth={2.5} />
+        </button>
+      </div>
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-[12px]">
+        {rows.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="font-medium text-black/35">{label}</dt>
+            <dd className="text-right font-mono text-black/65">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
 }
 
 const MeshViewer = forwardRef<MeshViewerHandle, MeshViewerProps>(function MeshViewer(
-  { uid, sessionId, segmentResult, highlightIds, processing, opacity },
+  { uid, sessionId, segmentResult, highlightIds, processing, opacity, onLoadError, autoRotate = true, shareToken, initialCamera },
   ref
 ) {
   const containerRef = useRef<HTMLDivElement>(null);
   const vtkContextRef = useRef<ReturnType<typeof vtkFullScreenRenderWindow.newInstance> | null>(null);
   const surfaceActorRef = useRef<ReturnType<typeof vtkActor.newInstance> | null>(null);
+  const surfacePolyRef = useRef<ReturnType<typeof vtkPolyData.newInstance> | null>(null);
+  const centerlineActorRef = useRef<ReturnType<typeof vtkActor.newInstance> | null>(null);
+  const centerlinePolyRef = useRef<ReturnType<typeof vtkPolyData.newInstance> | null>(null);
+  // What the scene currently shows — decides between full rebuild and scalar rewrite
+  const meshOnSceneRef = useRef<PackedSurfaceMesh | null>(null);
+  const segmentsOnSceneRef = useRef<Segment[] | null>(null);
+  const colorsOnSceneRef = useRef<SceneColors | null>(null);
+  const opacityRef = useRef(opacity);
   const rendererRef = useRef<ReturnType<ReturnType<typeof vtkFullScreenRenderWindow.newInstance>["getRenderer"]> | null>(null);
   const renderWindowRef = useRef<ReturnType<ReturnType<typeof vtkFullScreenRenderWindow.newInstance>["getRenderWindow"]> | null>(null);
 
-  const [surfaceMesh, setSurfaceMesh] = useState<SurfaceMesh | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [surfaceMesh, setSurfaceMesh] = useState<PackedSurfaceMesh | null>(null);
+  // Colors computed for a specific mesh — rendering waits until they match
+  const [scene, setScene] = useState<{
+    mesh: PackedSurfaceMesh;
+    colors: SceneColors;
+    segments: Segment[] | null;
+  } | null>(null);
+  // Outcome of the latest mesh fetch, keyed by uid/session (or share token) — "loading" until it matches the current key
+  const meshKey = shareToken ? `share/${shareToken}` : `${uid}/${sessionId}`;
+  const [loadResult, setLoadResult] = useState<{ key: string; error: string | null } | null>(null);
+  const loading = (!!shareToken || (!!uid && !!sessionId)) && loadResult?.key !== meshKey;
+  const error = loading ? null : loadResult?.error ?? null;
+
+  // ── Selection (picked segments) — keyed by session so switching sessions clears it ──
+  const [selection, setSelectionState] = useState<{ sessionId: string; ids: number[] }>({ sessionId, ids: [] });
+  const selectedIds = selection.sessionId === sessionId ? selection.ids : NO_IDS;
+  const selectedIdsRef = useRef(selectedIds);
+  const selectionListenersRef = useRef(new Set<(ids: number[]) => void>());
+  const [popover, setPopover] = useState<{ sessionId: string; segmentId: number; x: number; y: number } | null>(null);
+
+  // Chat highlights + picked segments are both drawn in the highlight color
+  const effectiveHighlights = useMemo(
+    () => (selectedIds.length ? [...new Set([...highlightIds, ...selectedIds])] : highlightIds),
+    [highlightIds, selectedIds],
+  );
+
+  const updateSelection = useCallback((ids: number[]) => {
+    selectedIdsRef.current = ids;
+    setSelectionState({ sessionId, ids });
+    for (const listener of selectionListenersRef.current) listener(ids);
+  }, [sessionId]);
+
+  useEffect(() => {
+    selectedIdsRef.current = selectedIds;
+  }, [selectedIds]);
+
+  const getSelection = useCallback(() => selectedIdsRef.current, []);
+
+  const onSelectionChange = useCallback((listener: (ids: number[]) => void) => {
+    selectionListenersRef.current.add(listener);
+    return () => {
+      selectionListenersRef.current.delete(listener);
+    };
+  }, []);
+
+  // Decoding and coloring run in a worker (created lazily, terminated on unmount)
+  const workerRef = useRef<MeshWorkerClient | null>(null);
+  const getWorker = useCallback(() => {
+    if (!workerRef.current) workerRef.current = new MeshWorkerClient();
+    return workerRef.current;
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      workerRef.current?.dispose();
+      workerRef.current = null;
+    };
+  }, []);
 
   // Auto-rotation state
-  const rotatingRef = useRef(true); // default: rotating
+  const rotatingRef = useRef(autoRotate);
   const rafIdRef = useRef<number | null>(null);
   const lastTimeRef = useRef<number>(0);
   const rotationAngleRef = useRef({ azimuth: 0, elevation: 0 });
+  // A turntable recording drives the rotation loop: its own speed, no bob, a hook after every render
+  const turntableRef = useRef<{ degreesPerSecond: number; frame: (dt: number) => void; cancel: () => void } | null>(null);
 
   // ── Expose zoom/reset to parent ──
   const zoomIn = useCallback(() => {
@@ -74,6 +203,60 @@ const MeshViewer = forwardRef<MeshViewerHandle, MeshViewerProps>(function MeshVi
     renderWindowRef.current.render();
   }, []);
 
+  /** Fit the camera to one segment's bounds, keeping the current view direction */
+  const zoomToSegment = useCallback((segmentId: number) => {
+    if (!rendererRef.current || !renderWindowRef.current) return false;
+    const seg = segmentsOnSceneRef.current?.find((s) => s.segment_id === segmentId);
+    const bounds = seg ? segmentBounds(seg, meshOnSceneRef.current) : null;
+    if (!bounds) return false;
+    rendererRef.current.resetCamera(bounds);
+    rendererRef.current.resetCameraClippingRange();
+    renderWindowRef.current.render();
+    return true;
+  }, []);
+
+  const getViewDirection = useCallback((): [number, number, number] | null => {
+    if (!rendererRef.current || !meshOnSceneRef.current) return null;
+    const [x, y, z] = rendererRef.current.getActiveCamera().getDirectionOfProjection();
+    return [x, y, z];
+  }, []);
+
+  // ── Camera state (linked viewers) ──
+  const cameraListenersRef = useRef(new Set<(state: CameraState) => void>());
+  const applyingCameraRef = useRef(false);
+
+  const getCamera = useCallback((): CameraState | null => {
+    if (!rendererRef.current || !meshOnSceneRef.current) return null;
+    const cam = rendererRef.current.getActiveCamera();
+    const [px, py, pz] = cam.getPosition();
+    const [fx, fy, fz] = cam.getFocalPoint();
+    const [ux, uy, uz] = cam.getViewUp();
+    return { position: [px, py, pz], focalPoint: [fx, fy, fz], viewUp: [ux, uy, uz], viewAngle: cam.getViewAngle() };
+  }, []);
+
+  const setCamera = useCallback((state: CameraState) => {
+    if (!rendererRef.current || !renderWindowRef.current) return;
+    const cam = rendererRef.current.getActiveCamera();
+    applyingCameraRef.current = true;
+    try {
+      cam.setPosition(...state.position);
+      cam.setFocalPoint(...state.focalPoint);
+      cam.setViewUp(...state.viewUp);
+      cam.setViewAngle(state.viewAngle);
+      rendererRef.current.resetCameraClippingRange();
+    } finally {
+      applyingCameraRef.current = false;
+    }
+    renderWindowRef.current.render();
+  }, []);
+
+  const onCameraChange = useCallback((listener: (state: CameraState) => void) => {
+    cameraListenersRef.current.add(listener);
+    return () => {
+      cameraListenersRef.current.delete(listener);
+    };
+  }, []);
+
   // ── Auto-rotation loop ──
   const startRotation = useCallback(() => {
     if (rafIdRef.current !== null) return; // already running
@@ -93,18 +276,23 @@ const MeshViewer = forwardRef<MeshViewerHandle, MeshViewerProps>(function MeshVi
 
       if (rendererRef.current && renderWindowRef.current) {
         const cam = rendererRef.current.getActiveCamera();
+        const turntable = turntableRef.current;
 
         // Slow horizontal rotation
-        cam.azimuth(AZIMUTH_SPEED * dt);
+        cam.azimuth((turntable?.degreesPerSecond ?? AZIMUTH_SPEED) * dt);
 
-        // Gentle vertical oscillation
-        rotationAngleRef.current.elevation += dt;
-        const elevDelta = Math.sin((rotationAngleRef.current.elevation / ELEVATION_PERIOD) * Math.PI * 2) * ELEVATION_AMP * dt;
-        cam.elevation(elevDelta);
+        // Gentle vertical oscillation — not while recording, so the turn loops seamlessly
+        if (!turntable) {
+          rotationAngleRef.current.elevation += dt;
+          const elevDelta = Math.sin((rotationAngleRef.current.elevation / ELEVATION_PERIOD) * Math.PI * 2) * ELEVATION_AMP * dt;
+          cam.elevation(elevDelta);
+        }
 
         cam.orthogonalizeViewUp();
         rendererRef.current.resetCameraClippingRange();
         renderWindowRef.current.render();
+        // Read the canvas now — the WebGL drawing buffer is only valid until the frame is presented
+        turntable?.frame(dt);
       }
 
       rafIdRef.current = requestAnimationFrame(animate);
@@ -121,6 +309,7 @@ const MeshViewer = forwardRef<MeshViewerHandle, MeshViewerProps>(function MeshVi
   }, []);
 
   const toggleRotation = useCallback(() => {
+    if (turntableRef.current) return rotatingRef.current; // the recording needs the loop
     rotatingRef.current = !rotatingRef.current;
     if (rotatingRef.current) {
       startRotation();
@@ -132,184 +321,377 @@ const MeshViewer = forwardRef<MeshViewerHandle, MeshViewerProps>(function MeshVi
 
   const isRotating = useCallback(() => rotatingRef.current, []);
 
-  useImperativeHandle(ref, () => ({ zoomIn, zoomOut, resetCamera, toggleRotation, isRotating }), [zoomIn, zoomOut, resetCamera, toggleRotation, isRotating]);
+  // ── Captures ──
+  const legendEntries = useCallback((): LegendEntry[] => {
+    const counts = new Map<string, number>();
+    for (const seg of segmentsOnSceneRef.current ?? []) counts.set(seg.type, (counts.get(seg.type) ?? 0) + 1);
+    // Known types in their usual order, then anything else
+    const types = [...Object.keys(SEGMENT_COLORS).filter((t) => counts.has(t)), ...[...counts.keys()].filter((t) => !SEGMENT_COLORS[t])];
+    return types.map((type) => ({ label: `${type} (${counts.get(type)})`, color: SEGMENT_COLORS[type] ?? DEFAULT_MESH_COLOR }));
+  }, []);
+
+  /** Rewrite face + centerline colors in place — same mesh and segments, only the highlights differ */
+  const writeSceneColors = useCallback((colors: SceneColors) => {
+    const surface = surfacePolyRef.current;
+    if (surface) {
+      surface.getCellData().getScalars().setData(colors.faceColors, 3);
+      surface.modified();
+    }
+    const centerline = centerlinePolyRef.current;
+    if (centerline && colors.centerline) {
+      centerline.getPointData().getScalars().setData(colors.centerline.colors, 3);
+      centerline.modified();
+    }
+  }, []);
+
+  const captureImage = useCallback(async ({ width, height, background, legend, highlightIds }: CaptureOptions): Promise<Blob> => {
+    const context = vtkContextRef.current;
+    const renderer = rendererRef.current;
+    const renderWindow = renderWindowRef.current;
+    const mesh = meshOnSceneRef.current;
+    if (!context || !renderer || !renderWindow || !mesh) throw new Error("Nothing to capture yet");
+
+    // Highlights for this capture only — the on-screen colors come back afterwards
+    const captureColors = highlightIds
+      ? await getWorker().sceneColors(mesh.numFaces, segmentsOnSceneRef.current ?? [], highlightIds)
+      : null;
+    if (captureColors && meshOnSceneRef.current !== mesh) throw new Error("The mesh changed during capture");
+    if (captureColors) writeSceneColors(captureColors);
+
+    const previous = renderer.getBackground();
+    if (background === "transparent") renderer.setBackground(0, 0, 0, 0);
+    else if (background !== "viewer") renderer.setBackground(background[0] / 255, background[1] / 255, background[2] / 255, 1);
+
+    let url: string | undefined;
+    try {
+      const pending = context.getApiSpecificRenderWindow().captureNextImage("image/png", { size: [width, height] });
+      renderWindow.render();
+      url = (await pending) ?? undefined;
+    } finally {
+      renderer.setBackground(previous);
+      if (captureColors && colorsOnSceneRef.current) writeSceneColors(colorsOnSceneRef.current);
+      renderWindow.render();
+    }
+    if (!url) throw new Error("The viewer was closed during capture");
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d")!;
+    ctx.drawImage(await loadImage(url), 0, 0, width, height);
+    if (legend) drawLegend(ctx, legendEntries());
+    console.log(`[MeshViewer] 📷 captured ${width}×${height}`);
+    return canvasToBlob(canvas);
+  }, [legendEntries, getWorker, writeSceneColors]);
+
+  const recordTurntable = useCallback(({ format, seconds, width, legend, onProgress, signal }: TurntableOptions): Promise<Blob> => {
+    const context = vtkContextRef.current;
+    if (!context || !meshOnSceneRef.current) return Promise.reject(new Error("Nothing to record yet"));
+    if (turntableRef.current) return Promise.reject(new Error("A recording is already running"));
+    if (signal?.aborted) return Promise.reject(abortError());
+
+    const source = context.getApiSpecificRenderWindow().getCanvas() as HTMLCanvasElement;
+    const recorder = createRecorder(format, width, (width * source.height) / source.width);
+    const ctx = recorder.canvas.getContext("2d")!;
+    const entries = legend ? legendEntries() : [];
+    const wasRotating = rotatingRef.current;
+    const degreesPerSecond = 360 / seconds;
+    console.log(`[MeshViewer] 🎬 recording ${seconds}s turntable as ${format}`);
+
+    return new Promise<Blob>((resolve, reject) => {
+      let turned = 0;
+      let elapsed = 0;
+
+      const end = () => {
+        turntableRef.current = null;
+        signal?.removeEventListener("abort", cancel);
+        if (!wasRotating) {
+          rotatingRef.current = false;
+          stopRotation();
+        }
+      };
+      function cancel() {
+        end();
+        recorder.cancel();
+        reject(abortError("Recording cancelled"));
+      }
+
+      turntableRef.current = {
+        degreesPerSecond,
+        cancel,
+        frame(dt) {
+          turned += degreesPerSecond * dt;
+          elapsed += dt * 1000;
+          ctx.drawImage(source, 0, 0, recorder.canvas.width, recorder.canvas.height);
+          drawLegend(ctx, entries);
+          try {
+            recorder.frame(elapsed);
+          } catch (err) {
+            end();
+            recorder.cancel();
+            reject(err);
+            return;
+          }
+          onProgress?.(Math.min(1, turned / 360));
+          if (turned < 360) return;
+          end();
+          recorder.finish().then(resolve, reject);
+        },
+      };
+      signal?.addEventListener("abort", cancel, { once: true });
+      rotatingRef.current = true;
+      startRotation();
+    });
+  }, [legendEntries, startRotation, stopRotation]);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      zoomIn, zoomOut, resetCamera, zoomToSegment, getViewDirection, toggleRotation, isRotating,
+      getSelection, setSelection: updateSelection, onSelectionChange,
+      getCamera, setCamera, onCameraChange, captureImage, recordTurntable,
+    }),
+    [
+      zoomIn, zoomOut, resetCamera, zoomToSegment, getViewDirection, toggleRotation, isRotating,
+      getSelection, updateSelection, onSelectionChange,
+      getCamera, setCamera, onCameraChange, captureImage, recordTurntable,
+    ],
+  );
+
+  const initialCameraRef = useRef(initialCamera);
+  useEffect(() => {
+    initialCameraRef.current = initialCamera;
+  }, [initialCamera]);
 
   // ── Update opacity without re-rendering entire scene ──
   useEffect(() => {
+    opacityRef.current = opacity;
     if (surfaceActorRef.current && renderWindowRef.current) {
       surfaceActorRef.current.getProperty().setOpacity(opacity);
       renderWindowRef.current.render();
     }
   }, [opacity]);
 
-  // ── Fetch surface mesh ──
+  // Latest callback, so a new function identity doesn't refetch the mesh
+  const onLoadErrorRef = useRef(onLoadError);
+  useEffect(() => {
+    onLoadErrorRef.current = onLoadError;
+  }, [onLoadError]);
+
+  // ── Fetch + decode surface mesh (cancelled when the session changes) ──
   useEffect(() => {
-    if (!uid || !sessionId) return;
-    setLoading(true);
-    setError(null);
-    console.log("[MeshViewer] fetching surface mesh for", uid, sessionId);
+    if (!shareToken && (!uid || !sessionId)) return;
+    const controller = new AbortController();
+    const key = shareToken ? `share/${shareToken}` : `${uid}/${sessionId}`;
+    console.log("[MeshViewer] fetching surface mesh for", key);
 
-    getSurfaceMesh(uid, sessionId)
+    getWorker().loadMesh(shareToken ? { shareToken } : { uid, sessionId }, controller.signal)
       .then((data) => {
-        if (!data.vertices?.length || !data.faces?.length) {
-          setError("Mesh data is empty or has unexpected format.");
+        if (!data.numVertices || !data.numFaces) {
+          setLoadResult({ key, error: "Mesh data is empty or has unexpected format." });
           return;
         }
         setSurfaceMesh(data);
+        setLoadResult({ key, error: null });
       })
       .catch((err) => {
-        setError(`Could not load mesh: ${err.message || "unknown error"}`);
-      })
-      .finally(() => setLoading(false));
-  }, [uid, sessionId]);
+        if (isAbortError(err)) return;
+        setLoadResult({ key, error: `Could not load mesh: ${err.message || "unknown error"}` });
+        onLoadErrorRef.current?.(err);
+      });
 
-  // ── Render VTK scene ──
+    return () => controller.abort();
+  }, [uid, sessionId, shareToken, getWorker]);
+
+  // ── Face colors + centerline geometry (worker) ──
   useEffect(() => {
-    if (!containerRef.current || !surfaceMesh) return;
-    const { vertices, faces } = surfaceMesh;
-    if (!vertices?.length || !faces?.length) return;
+    if (!surfaceMesh) return;
+    const controller = new AbortController();
 
+    getWorker().sceneColors(surfaceMesh.numFaces, segmentResult?.segments ?? [], effectiveHighlights, controller.signal)
+      .then((colors) => setScene({ mesh: surfaceMesh, colors, segments: segmentResult?.segments ?? null }))
+      .catch((err) => {
+        if (!isAbortError(err)) console.error("[MeshViewer] ❌ scene coloring failed:", err);
+      });
 
-    // Cleanup
-    if (vtkContextRef.current) {
-      vtkContextRef.current.delete();
-      vtkContextRef.current = null;
-    }
-    containerRef.current.innerHTML = "";
+    return () => controller.abort();
+  }, [surfaceMesh, segmentResult, effectiveHighlights, getWorker]);
+
+  // ── Render window — created once, kept across mesh/segment/highlight changes ──
+  useEffect(() => {
+    if (!containerRef.current) return;
 
     const fullScreenRenderer = vtkFullScreenRenderWindow.newInstance({
       container: containerRef.current,
       background: [0.97, 0.97, 0.96] as [number, number, number],
     });
     vtkContextRef.current = fullScreenRenderer;
+    rendererRef.current = fullScreenRenderer.getRenderer();
+    renderWindowRef.current = fullScreenRenderer.getRenderWindow();
 
-    const renderer = fullScreenRenderer.getRenderer();
-    const renderWindow = fullScreenRenderer.getRenderWindow();
-    rendererRef.current = renderer;
-    renderWindowRef.current = renderWindow;
-
-    // ── Surface mesh geometry ──
-    const surfacePolyData = vtkPolyData.newInstance();
-    const numVerts = vertices.length;
-    const points = new Float32Array(numVerts * 3);
-    for (let i = 0; i < numVerts; i++) {
-      points[i * 3] = vertices[i][0];
-      points[i * 3 + 1] = vertices[i][1];
-      points[i * 3 + 2] = vertices[i][2];
-    }
-    surfacePolyData.getPoints().setData(points, 3);
-
-    const numFaces = faces.length;
-    const polys = new Uint32Array(numFaces * 4);
-    for (let i = 0; i < numFaces; i++) {
-      polys[i * 4] = 3;
-      polys[i * 4 + 1] = faces[i][0];
-      polys[i * 4 + 2] = faces[i][1];
-      polys[i * 4 + 3] = faces[i][2];
-    }
-    surfacePolyData.getPolys().setData(polys);
-
-    // ── Color faces by segment (same colors as centerline) ──
-    const faceColors = new Uint8Array(numFaces * 3);
-    for (let i = 0; i < numFaces; i++) {
-      faceColors[i * 3] = DEFAULT_MESH_COLOR[0];
-      faceColors[i * 3 + 1] = DEFAULT_MESH_COLOR[1];
-      faceColors[i * 3 + 2] = DEFAULT_MESH_COLOR[2];
-    }
+    const cameraSub = rendererRef.current.getActiveCamera().onModified(() => {
+      if (applyingCameraRef.current || cameraListenersRef.current.size === 0) return;
+      const state = getCamera();
+      if (state) for (const listener of cameraListenersRef.current) listener(state);
+    });
 
-    if (segmentResult?.segments) {
-      for (const seg of segmentResult.segments) {
-        const isHighlighted = highlightIds.includes(seg.segment_id);
-        const color = isHighlighted
-          ? HIGHLIGHT_COLOR
-          : SEGMENT_COLORS[seg.type] || DEFAULT_MESH_COLOR;
-
-        // Use face_ids if available (preferred)
-        if (seg.face_ids && seg.face_ids.length > 0) {
-          for (const faceIdx of seg.face_ids) {
-            if (faceIdx < numFaces) {
-              faceColors[faceIdx * 3] = color[0];
-              faceColors[faceIdx * 3 + 1] = color[1];
-              faceColors[faceIdx * 3 + 2] = color[2];
-            }
-          }
-        }
-        // Fallback: color vertices by original_node_ids (vertex coloring)
-        // This is less precise but works without face_ids
-      }
+    return () => {
+      cameraSub.unsubscribe();
+      turntableRef.current?.cancel();
+      stopRotation();
+      surfaceActorRef.current = null;
+      surfacePolyRef.current = null;
+      centerlineActorRef.current = null;
+      centerlinePolyRef.current = null;
+      meshOnSceneRef.current = null;
+      segmentsOnSceneRef.current = null;
+      colorsOnSceneRef.current = null;
+      rendererRef.current = null;
+      renderWindowRef.current = null;
+      vtkContextRef.current = null;
+      fullScreenRenderer.delete();
+    };
+  }, [stopRotation, getCamera]);
+
+  // ── Picking: display position → picked cell → segment_id (via face_ids / centerline cells) ──
+  const pickSegmentAt = useCallback((clientX: number, clientY: number): number | null => {
+    const context = vtkContextRef.current;
+    const renderer = rendererRef.current;
+    const colors = colorsOnSceneRef.current;
+    if (!context || !renderer || !colors) return null;
+
+    const view = context.getApiSpecificRenderWindow();
+    const rect = (view.getCanvas() as HTMLCanvasElement).getBoundingClientRect();
+    const [width, height] = view.getSize() as [number, number];
+    const x = (clientX - rect.left) * (width / rect.width);
+    const y = height - (clientY - rect.top) * (height / rect.height);
+
+    const picker = vtkCellPicker.newInstance();
+    picker.setPickFromList(false);
+    picker.pick([x, y, 0], renderer);
+
+    const cellId = picker.getCellId();
+    const actor = picker.getActors()[0];
+    if (cellId < 0 || !actor) return null;
+
+    let segmentId = -1;
+    if (actor === surfaceActorRef.current) segmentId = colors.faceSegmentIds[cellId] ?? -1;
+    else if (actor === centerlineActorRef.current) segmentId = colors.centerline?.cellSegmentIds[cellId] ?? -1;
+    return segmentId >= 0 ? segmentId : null;
+  }, []);
+
+  const handleClick = useCallback((e: PointerEvent) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const segmentId = pickSegmentAt(e.clientX, e.clientY);
+
+    if (segmentId === null) {
+      if (!e.shiftKey) updateSelection([]);
+      setPopover(null);
+      return;
     }
 
-    const cellColorArray = vtkDataArray.newInstance({
-      numberOfComponents: 3,
-      values: faceColors,
-      name: "SegmentColors",
-      dataType: "Uint8Array",
+    const current = selectedIdsRef.current;
+    const next = e.shiftKey
+      ? (current.includes(segmentId) ? current.filter((id) => id !== segmentId) : [...current, segmentId])
+      : [segmentId];
+    updateSelection(next);
+
+    // Keep the popover inside the viewer (popover is 224 × ~150 px)
+    const rect = container.getBoundingClientRect();
+    setPopover({
+      sessionId,
+      segmentId,
+      x: Math.min(e.clientX - rect.left + 12, rect.width - 236),
+      y: Math.min(e.clientY - rect.top + 12, rect.height - 160),
     });
-    surfacePolyData.getCellData().setScalars(cellColorArray);
-
-    const surfaceMapper = vtkMapper.newInstance();
-    surfaceMapper.setInputData(surfacePolyData);
-    surfaceMapper.setScalarVisibility(true);
-    surfaceMapper.setScalarModeToUseCellData();
+  }, [pickSegmentAt, updateSelection, sessionId]);
 
-    const surfaceActor = vtkActor.newInstance();
-    surfaceActor.setMapper(surfaceMapper);
-    surfaceActor.getProperty().setEdgeVisibility(true);
-    surfaceActor.getProperty().setEdgeColor(0.15, 0.15, 0.15);
-    surfaceActor.getProperty().setLineWidth(0.5);
-    surfaceActor.getProperty().setOpacity(opacity);
-    surfaceActorRef.current = surfaceActor;
+  // Native listeners (capture) — the VTK interactor owns the canvas events
+  const handleClickRef = useRef(handleClick);
+  useEffect(() => {
+    handleClickRef.current = handleClick;
+  }, [handleClick]);
 
-    renderer.addActor(surfaceActor);
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    let down: { x: number; y: number } | null = null;
 
-    // ── Centerline overlay — same colors as surface ──
-    if (segmentResult?.segments) {
-      const clPolyData = vtkPolyData.newInstance();
-      const clPoints: number[] = [];
-      const clLines: number[] = [];
-      const clColors: number[] = [];
-      let offset = 0;
-
-      for (const seg of segmentResult.segments) {
-        const nodes = seg.downsampled_nodes;
-        if (!nodes || nodes.length < 2) continue;
-
-        const isHighlighted = highlightIds.includes(seg.segment_id);
-        const color = isHighlighted
-          ? HIGHLIGHT_COLOR
-          : SEGMENT_COLORS[seg.type] || DEFAULT_MESH_COLOR;
-
-        for (const node of nodes) {
-          clPoints.push(node[0], node[1], node[2]);
-          clColors.push(color[0], color[1], color[2]);
-        }
+    const onDown = (e: PointerEvent) => {
+      down = e.button === 0 ? { x: e.clientX, y: e.clientY } : null;
+    };
+    const onUp = (e: PointerEvent) => {
+      if (down && Math.hypot(e.clientX - down.x, e.clientY - down.y) <= CLICK_SLOP) handleClickRef.current(e);
+      down = null;
+    };
 
-        const edges = seg.downsampled_edges;
-        if (edges && edges.length > 0) {
-          for (const edge of edges) {
-            clLines.push(2, edge[0] + offset, edge[1] + offset);
-          }
-        } else {
-          clLines.push(nodes.length);
-          for (let i = 0; i < nodes.length; i++) {
-            clLines.push(i + offset);
-          }
-        }
-        offset += nodes.length;
-      }
+    container.addEventListener("pointerdown", onDown, true);
+    container.addEventListener("pointerup", onUp, true);
+    return () => {
+      container.removeEventListener("pointerdown", onDown, true);
+      container.removeEventListener("pointerup", onUp, true);
+    };
+  }, []);
 
-      if (clPoints.length > 0) {
-        clPolyData.getPoints().setData(new Float32Array(clPoints), 3);
-        clPolyData.getLines().setData(new Uint32Array(clLines));
+  // ── Apply scene: swap geometry on a new mesh, otherwise only rewrite scalars ──
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    const renderWindow = renderWindowRef.current;
+    if (!scene || !renderer || !renderWindow) return;
+    const { mesh, colors, segments } = scene;
+    const isNewMesh = meshOnSceneRef.current !== mesh;
+
+    // ── Surface mesh ──
+    if (!surfaceActorRef.current || !surfacePolyRef.current) {
+      const surfacePolyData = vtkPolyData.newInstance();
+      const surfaceMapper = vtkMapper.newInstance();
+      surfaceMapper.setInputData(surfacePolyData);
+      surfaceMapper.setScalarVisibility(true);
+      surfaceMapper.setScalarModeToUseCellData();
+
+      const surfaceActor = vtkActor.newInstance();
+      surfaceActor.setMapper(surfaceMapper);
+      surfaceActor.getProperty().setEdgeVisibility(true);
+      surfaceActor.getProperty().setEdgeColor(0.15, 0.15, 0.15);
+      surfaceActor.getProperty().setLineWidth(0.5);
+      surfaceActor.getProperty().setOpacity(opacityRef.current);
+      renderer.addActor(surfaceActor);
+
+      surfacePolyRef.current = surfacePolyData;
+      surfaceActorRef.current = surfaceActor;
+    }
 
-        const clColorArray = vtkDataArray.newInstance({
-          numberOfComponents: 3,
-          values: new Uint8Array(clColors),
-          name: "CenterlineColors",
-          dataType: "Uint8Array",
-        });
-        clPolyData.getPointData().setScalars(clColorArray);
+    const surfacePolyData = surfacePolyRef.current;
+    if (isNewMesh) {
+      surfacePolyData.getPoints().setData(mesh.points, 3);
+      surfacePolyData.getPolys().setData(toVtkPolys(mesh.faces));
+      surfacePolyData.getCellData().setScalars(vtkDataArray.newInstance({
+        numberOfComponents: 3,
+        values: colors.faceColors,
+        name: "SegmentColors",
+        dataType: "Uint8Array",
+      }));
+      meshOnSceneRef.current = mesh;
+    } else {
+      // Same faces — segment colors (same as centerline) are all that changed
+      surfacePolyData.getCellData().getScalars().setData(colors.faceColors, 3);
+    }
+    surfacePolyData.modified();
 
+    // ── Centerline overlay — same colors as surface ──
+    const centerline = colors.centerline;
+    if (!centerline) {
+      if (centerlineActorRef.current) renderer.removeActor(centerlineActorRef.current);
+      centerlineActorRef.current = null;
+      centerlinePolyRef.current = null;
+    } else if (centerlinePolyRef.current && segmentsOnSceneRef.current === segments) {
+      // Same segments — only highlight colors changed
+      centerlinePolyRef.current.getPointData().getScalars().setData(centerline.colors, 3);
+      centerlinePolyRef.current.modified();
+    } else {
+      if (!centerlineActorRef.current || !centerlinePolyRef.current) {
+        const clPolyData = vtkPolyData.newInstance();
         const clMapper = vtkMapper.newInstance();
         clMapper.setInputData(clPolyData);
         clMapper.setScalarVisibility(true);
@@ -318,79 +700,94 @@ const MeshViewer = forwardRef<MeshViewerHandle, MeshViewerProps>(function MeshVi
         clActor.setMapper(clMapper);
         clActor.getProperty().setLineWidth(4);
         clActor.getProperty().setOpacity(1);
-
         renderer.addActor(clActor);
+
+        centerlinePolyRef.current = clPolyData;
+        centerlineActorRef.current = clActor;
       }
-    }
 
-    // Camera
-    renderer.resetCamera();
-    renderer.getActiveCamera().azimuth(25);
-    renderer.getActiveCamera().elevation(15);
+      const clPolyData = centerlinePolyRef.current;
+      clPolyData.getPoints().setData(centerline.points, 3);
+      clPolyData.getLines().setData(centerline.lines);
+      clPolyData.getPointData().setScalars(vtkDataArray.newInstance({
+        numberOfComponents: 3,
+        values: centerline.colors,
+        name: "CenterlineColors",
+        dataType: "Uint8Array",
+      }));
+      clPolyData.modified();
+    }
+    segmentsOnSceneRef.current = segments;
+    colorsOnSceneRef.current = colors;
+
+    // Camera — only a new mesh resets the view; everything else keeps the user's pose
+    if (isNewMesh && initialCameraRef.current) {
+      setCamera(initialCameraRef.current);
+    } else if (isNewMesh) {
+      renderer.resetCamera();
+      renderer.getActiveCamera().azimuth(25);
+      renderer.getActiveCamera().elevation(15);
+    }
     renderer.resetCameraClippingRange();
     renderWindow.render();
 
     // Start auto-rotation if enabled
-    if (rotatingRef.current) {
+    if (isNewMesh && rotatingRef.current) {
       startRotation();
     }
+  }, [scene, startRotation, setCamera]);
 
-    return () => {
-      stopRotation();
-      surfaceActorRef.current = null;
-      rendererRef.current = null;
-      renderWindowRef.current = null;
-      if (vtkContextRef.current) {
-        vtkContextRef.current.delete();
-        vtkContextRef.current = null;
-      }
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [surfaceMesh, segmentResult, highlightIds, opacity]);
-
-  // ── States ──
+  // ── States (overlaid, so the render window survives them) ──
+  let overlay: ReactNode = null;
   if (loading) {
-    return (
-      <div className="flex h-full w-full items-center justify-center">
-        <div className="flex items-center gap-3">
-          <Loader2 size={18} className="animate-spin text-black/30" />
-          <span className="text-[14px] font-medium text-black/30">Loading mesh…</span>
-        </div>
+    overlay = (
+      <div className="flex items-center gap-3">
+        <Loader2 size={18} className="animate-spin text-black/30" />
+        <span className="text-[14px] font-medium text-black/30">Loading mesh…</span>
       </div>
     );
-  }
-
-  if (error) {
-    return (
-      <div className="flex h-full w-full flex-col items-center justify-center gap-2">
+  } else if (error) {
+    overlay = (
+      <div className="flex flex-col items-center gap-2">
         <p className="text-[14px] font-medium text-red-400">{error}</p>
         <p className="max-w-md text-center text-[12px] text-black/25">
-          Backend needs <code className="rounded bg-black/5 px-1.5 py-0.5 font-mono text-[11px]">GET /mesh/{"{uid}"}/{"{session_id}"}</code>
+          Backend needs{" "}
+          <code className="rounded bg-black/5 px-1.5 py-0.5 font-mono text-[11px]">
+            {shareToken ? "GET /shared/{token}/mesh" : "GET /mesh/{uid}/{session_id}"}
+          </code>
         </p>
       </div>
     );
-  }
-
-  if (!surfaceMesh && processing) {
-    return (
-      <div className="flex h-full w-full items-center justify-center">
-        <div className="flex items-center gap-3">
-          <Loader2 size={18} className="animate-spin text-black/30" />
-          <span className="text-[14px] font-medium text-black/30">Processing mesh…</span>
-        </div>
+  } else if (!surfaceMesh && processing) {
+    overlay = (
+      <div className="flex items-center gap-3">
+        <Loader2 size={18} className="animate-spin text-black/30" />
+        <span className="text-[14px] font-medium text-black/30">Processing mesh…</span>
       </div>
     );
+  } else if (!surfaceMesh) {
+    overlay = <p className="text-[14px] font-medium text-black/20">Waiting for mesh data…</p>;
   }
 
-  if (!surfaceMesh) {
-    return (
-      <div className="flex h-full w-full items-center justify-center">
-        <p className="text-[14px] font-medium text-black/20">Waiting for mesh data…</p>
-      </div>
-    );
-  }
+  const popoverSegment = popover && popover.sessionId === sessionId
+    ? segmentResult?.segments.find((seg) => seg.segment_id === popover.segmentId)
+    : undefined;
 
-  return <div ref={containerRef} className="relative h-full w-full" />;
+  return (
+    <div className="relative h-full w-full">
+      <div ref={containerRef} className="absolute inset-0" />
+      {popover && popoverSegment && !overlay && (
+        <div className="absolute z-10" style={{ left: Math.max(popover.x, 8), top: Math.max(popover.y, 8) }}>
+          <SegmentPopover segment={popoverSegment} onClose={() => setPopover(null)} />
+        </div>
+      )}
+      {overlay && (
+        <div className="absolute inset-0 flex items-center justify-center bg-[#F8F8F6]">
+          {overlay}
+        </div>
+      )}
+    </div>
+  );
 });
 
 export default MeshViewer;
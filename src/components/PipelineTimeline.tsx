@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronUp, ChevronRight, Layers, MessageSquare, Loader2 } from "lucide-react";
+import { stepDurations, type PipelineRun } from "@/lib/pipelineRuns";
+
+/* ── Formatting ── */
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+  const minutes = Math.floor(ms / 60_000);
+  return `${minutes}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+function formatDetailValue(value: unknown): string {
+  if (typeof value === "number") return String(Number(value.toFixed(4)));
+  if (typeof value === "string") return value;
+  const json = JSON.stringify(value);
+  return json.length > 120 ? `${json.slice(0, 120)}…` : json;
+}
+
+const OUTCOME_STYLES: Record<string, string> = {
+  done: "bg-[#2E7D5B]/10 text-[#2E7D5B]",
+  failed: "bg-red-500/10 text-red-500/80",
+  cancelled: "bg-black/5 text-black/40",
+};
+
+/* ── Run ── */
+
+function RunItem({ run, defaultOpen }: { run: PipelineRun; defaultOpen: boolean }) {
+  const [open, setOpen] = useState(defaultOpen);
+  const durations = stepDurations(run);
+  const total = run.finished_at !== undefined ? run.finished_at - run.started_at : undefined;
+  // The slowest step stands out — that's usually what you came here for
+  const slowest = durations.reduce<number>((best, d, i) => (d !== undefined && d > (durations[best] ?? -1) ? i : best), -1);
+  const Icon = run.kind === "segment" ? Layers : MessageSquare;
+
+  return (
+    <li className="border-b border-black/4 last:border-0">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="flex w-full items-center gap-2 px-6 py-2 text-left transition-colors hover:bg-black/3"
+      >
+        <ChevronRight size={12} className={`shrink-0 text-black/30 transition-transform ${open ? "rotate-90" : ""}`} />
+        <Icon size={12} className="shrink-0 text-black/35" />
+        <span className="truncate text-[12px] font-semibold text-black/60">
+          {run.kind === "segment" ? "Segmentation" : `“${run.query ?? "Query"}”`}
+        </span>
+        <span className="shrink-0 font-mono text-[11px] text-black/30">{formatTime(run.started_at)}</span>
+        <span className="ml-auto flex shrink-0 items-center gap-2">
+          {total !== undefined && <span className="font-mono text-[11px] text-black/40">{formatDuration(total)}</span>}
+          {run.outcome ? (
+            <span className={`rounded px-1.5 py-0.5 text-[10px] font-bold uppercase ${OUTCOME_STYLES[run.outcome]}`}>
+              {run.outcome}
+            </span>
+          ) : (
+            <Loader2 size={11} className="animate-spin text-black/30" />
+          )}
+        </span>
+      </button>
+
+      {open && (
+        <div className="pb-3 pl-12 pr-6">
+          {run.error && <p className="mb-2 text-[11px] font-medium text-red-500/70">{run.error}</p>}
+          {run.steps.length === 0 ? (
+            <p className="text-[11px] text-black/25">No progress steps reported</p>
+          ) : (
+            <ol className="relative border-l border-black/10">
+              {run.steps.map((step, i) => {
+                const d = durations[i];
+                const details = Object.entries(step.detail ?? {});
+                return (
+                  <li key={i} className="relative pb-2.5 pl-4 last:pb-0">
+                    <span
+                      className={`absolute top-1 -left-[4.5px] h-2 w-2 rounded-full ${
+                        d === undefined && !run.outcome ? "animate-pulse bg-[#FFE650]" : "bg-black/25"
+                      }`}
+                    />
+                    <div className="flex items-baseline gap-2">
+                      <span className="text-[12px] font-semibold text-black/60">{step.step.replace(/_/g, " ")}</span>
+                      <span className="font-mono text-[10px] text-black/25">
+                        +{formatDuration(step.timestamp - run.started_at)}
+                      </span>
+                      {d !== undefined && (
+                        <span
+                          className={`ml-auto font-mono text-[11px] ${i === slowest && run.steps.length > 1 ? "font-bold text-[#B5651D]" : "text-black/40"}`}
+                          title={i === slowest ? "Slowest step" : undefined}
+                        >
+                          {formatDuration(d)}
+                        </span>
+                      )}
+                    </div>
+                    {step.explanation && <p className="mt-0.5 text-[11px] leading-snug text-black/45">{step.explanation}</p>}
+                    {details.length > 0 && (
+                      <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 font-mono text-[11px]">
+                        {details.map(([key, value]) => (
+                          <div key={key} className="contents">
+                            <dt className="text-black/35">{key}</dt>
+                            <dd className="break-all text-black/55">{formatDetailValue(value)}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+/* ── Timeline ── */
+
+/** Every segmentation/query run of the session, newest first, with per-step timings */
+export default function PipelineTimeline({ runs }: { runs: PipelineRun[] }) {
+  const [open, setOpen] = useState(false);
+  const newestFirst = [...runs].reverse();
+  const running = runs.some((run) => !run.outcome);
+
+  return (
+    <div className="shrink-0 border-t border-black/8 bg-[#F7F7F5]">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="flex h-10 w-full items-center justify-between px-6 transition-colors hover:bg-black/3"
+      >
+        <span className="flex items-center gap-2 text-[13px] font-semibold tracking-wide text-black/50 uppercase">
+          Pipeline
+          <span className="rounded-full bg-black/5 px-2 py-0.5 text-[11px] font-bold text-black/35 normal-case">{runs.length}</span>
+          {running && <Loader2 size={12} className="animate-spin text-black/30" />}
+        </span>
+        {open ? <ChevronDown size={14} className="text-black/30" /> : <ChevronUp size={14} className="text-black/30" />}
+      </button>
+
+      {open && (
+        <ul className="max-h-72 overflow-y-auto border-t border-black/6">
+          {newestFirst.map((run, i) => (
+            <RunItem key={run.request_id} run={run} defaultOpen={i === 0} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { Segment } from "@/lib/api";
+import { ChevronDown, ChevronUp, ArrowUp, ArrowDown, Crosshair, ListFilter } from "lucide-react";
+import { SEGMENT_COLORS } from "./meshConstants";
+
+/* ── Sortable/filterable columns ── */
+
+type NumericKey = "length" | "mean_curvature" | "arc_angle_deg" | "corner_angle_deg" | "radius_est" | "node_count";
+type SortKey = "segment_id" | "type" | NumericKey;
+
+const NUMERIC_COLUMNS: { key: NumericKey; label: string; digits: number; unit?: string }[] = [
+  { key: "length", label: "Length", digits: 2 },
+  { key: "mean_curvature", label: "Curvature", digits: 4 },
+  { key: "arc_angle_deg", label: "Arc", digits: 1, unit: "°" },
+  { key: "corner_angle_deg", label: "Corner", digits: 1, unit: "°" },
+  { key: "radius_est", label: "Radius", digits: 2 },
+  { key: "node_count", label: "Nodes", digits: 0 },
+];
+
+function numericValue(seg: Segment, key: NumericKey): number | undefined {
+  const v = seg[key];
+  return typeof v === "number" && Number.isFinite(v) ? v : undefined;
+}
+
+function compare(a: Segment, b: Segment, key: SortKey, dir: 1 | -1): number {
+  if (key === "type") return a.type.localeCompare(b.type) * dir;
+  if (key === "segment_id") return (a.segment_id - b.segment_id) * dir;
+  // Missing values sort last regardless of direction
+  const av = numericValue(a, key);
+  const bv = numericValue(b, key);
+  if (av === undefined || bv === undefined) return (av === undefined ? 1 : 0) - (bv === undefined ? 1 : 0);
+  return (av - bv) * dir;
+}
+
+interface SegmentInspectorProps {
+  segments: Segment[];
+  /** Segments selected in the viewer — rows mirror it */
+  selectedIds: number[];
+  /** Segments highlighted by the last answer */
+  highlightIds: number[];
+  /** Types filtered out of the table — owned by the dashboard so queries can report it */
+  hiddenTypes: string[];
+  onHiddenTypesChange: (types: string[]) => void;
+  onSelectionChange: (ids: number[]) => void;
+  onZoomToSegment: (segmentId: number) => void;
+}
+
+export default function SegmentInspector({
+  segments,
+  selectedIds,
+  highlightIds,
+  hiddenTypes,
+  onHiddenTypesChange,
+  onSelectionChange,
+  onZoomToSegment,
+}: SegmentInspectorProps) {
+  const [open, setOpen] = useState(false);
+  const [sort, setSort] = useState<{ key: SortKey; dir: 1 | -1 }>({ key: "segment_id", dir: 1 });
+
+  // Filters
+  const [rangeKey, setRangeKey] = useState<NumericKey>("length");
+  const [rangeMin, setRangeMin] = useState("");
+  const [rangeMax, setRangeMax] = useState("");
+
+  const types = useMemo(() => [...new Set(segments.map((s) => s.type))].sort(), [segments]);
+
+  const rows = useMemo(() => {
+    const min = rangeMin.trim() === "" ? null : Number(rangeMin);
+    const max = rangeMax.trim() === "" ? null : Number(rangeMax);
+    const filtered = segments.filter((seg) => {
+      if (hiddenTypes.includes(seg.type)) return false;
+      if (min === null && max === null) return true;
+      const v = numericValue(seg, rangeKey);
+      if (v === undefined) return false;
+      if (min !== null && Number.isFinite(min) && v < min) return false;
+      if (max !== null && Number.isFinite(max) && v > max) return false;
+      return true;
+    });
+    return filtered.sort((a, b) => compare(a, b, sort.key, sort.dir));
+  }, [segments, hiddenTypes, rangeKey, rangeMin, rangeMax, sort]);
+
+  const selected = useMemo(() => new Set(selectedIds), [selectedIds]);
+  const highlighted = useMemo(() => new Set(highlightIds), [highlightIds]);
+
+  function toggleSort(key: SortKey) {
+    setSort((prev) => (prev.key === key ? { key, dir: prev.dir === 1 ? -1 : 1 } : { key, dir: 1 }));
+  }
+
+  function toggleType(type: string) {
+    onHiddenTypesChange(hiddenTypes.includes(type) ? hiddenTypes.filter((t) => t !== type) : [...hiddenTypes, type]);
+  }
+
+  /** Click = select only this row; shift/ctrl/cmd-click = toggle it in the selection */
+  function handleRowClick(e: React.MouseEvent, id: number) {
+    if (e.shiftKey || e.metaKey || e.ctrlKey) {
+      onSelectionChange(selected.has(id) ? selectedIds.filter((s) => s !== id) : [...selectedIds, id]);
+    } else {
+      onSelectionChange(selected.has(id) && selectedIds.length === 1 ? [] : [id]);
+    }
+  }
+
+  const sortIcon = (key: SortKey) =>
+    sort.key === key ? (sort.dir === 1 ? <ArrowUp size={10} strokeWidth={2.5} /> : <ArrowDown size={10} strokeWidth={2.5} />) : null;
+
+  const headerClass = "cursor-pointer select-none px-2 py-1.5 font-semibold text-black/40 transition-colors hover:text-black/70";
+
+  return (
+    <div className="shrink-0 border-t border-black/8 bg-[#F7F7F5]">
+      {/* Header — acts as toggle */}
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="flex h-10 w-full items-center justify-between px-6 transition-colors hover:bg-black/3"
+      >
+        <span className="flex items-center gap-2 text-[13px] font-semibold tracking-wide text-black/50 uppercase">
+          Segments
+          <span className="rounded-full bg-black/5 px-2 py-0.5 text-[11px] font-bold text-black/35 normal-case">
+            {rows.length === segments.length ? segments.length : `${rows.length} / ${segments.length}`}
+          </span>
+        </span>
+        {open ? <ChevronDown size={14} className="text-black/30" /> : <ChevronUp size={14} className="text-black/30" />}
+      </button>
+
+      {open && (
+        <div className="border-t border-black/6">
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-3 px-6 py-2.5">
+            <ListFilter size={13} className="text-black/30" />
+            {types.map((type) => {
+              const c = SEGMENT_COLORS[type];
+              const active = !hiddenTypes.includes(type);
+              return (
+                <button
+                  key={type}
+                  onClick={() => toggleType(type)}
+                  className={`flex items-center gap-1.5 rounded-md px-2 py-1 text-[12px] font-semibold transition-colors ${
+                    active ? "bg-black/6 text-black/60" : "text-black/25 hover:bg-black/4"
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-2 w-2 rounded-full ${active ? "" : "opacity-30"}`}
+                    style={c ? { backgroundColor: `rgb(${c[0]}, ${c[1]}, ${c[2]})` } : undefined}
+                  />
+                  {type}
+                </button>
+              );
+            })}
+
+            <div className="mx-1 h-4 w-px bg-black/8" />
+
+            <select
+              value={rangeKey}
+              onChange={(e) => setRangeKey(e.target.value as NumericKey)}
+              className="rounded-md border border-black/10 bg-white px-1.5 py-1 text-[12px] font-medium text-black/60 outline-none"
+            >
+              {NUMERIC_COLUMNS.map((col) => (
+                <option key={col.key} value={col.key}>{col.label}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={rangeMin}
+              onChange={(e) => setRangeMin(e.target.value)}
+              placeholder="min"
+              className="w-20 rounded-md border border-black/10 bg-white px-2 py-1 text-[12px] font-medium text-black/70 outline-none placeholder-black/25"
+            />
+            <span className="text-[12px] text-black/25">–</span>
+            <input
+              type="number"
+              value={rangeMax}
+              onChange={(e) => setRangeMax(e.target.value)}
+              placeholder="max"
+              className="w-20 rounded-md border border-black/10 bg-white px-2 py-1 text-[12px] font-medium text-black/70 outline-none placeholder-black/25"
+            />
+            {selectedIds.length > 0 && (
+              <button
+                onClick={() => onSelectionChange([])}
+                className="ml-auto text-[12px] font-semibold text-black/35 transition-colors hover:text-black/70"
+              >
+                Clear selection ({selectedIds.length})
+              </button>
+            )}
+          </div>
+
+          {/* Table */}
+          <div className="max-h-64 overflow-y-auto">
+            <table className="w-full text-[12px]">
+              <thead className="sticky top-0 bg-[#F7F7F5]">
+                <tr className="border-b border-black/6 text-left">
+                  <th className={`${headerClass} pl-6`} onClick={() => toggleSort("segment_id")}>
+                    <span className="flex items-center gap-1">#{sortIcon("segment_id")}</span>
+                  </th>
+                  <th className={headerClass} onClick={() => toggleSort("type")}>
+                    <span className="flex items-center gap-1">Type{sortIcon("type")}</span>
+                  </th>
+                  {NUMERIC_COLUMNS.map((col) => (
+                    <th key={col.key} className={`${headerClass} text-right`} onClick={() => toggleSort(col.key)}>
+                      <span className="flex items-center justify-end gap-1">{col.label}{sortIcon(col.key)}</span>
+                    </th>
+                  ))}
+                  <th className="w-10 pr-6" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((seg) => {
+                  const c = SEGMENT_COLORS[seg.type];
+                  const isSelected = selected.has(seg.segment_id);
+                  return (
+                    <tr
+                      key={seg.segment_id}
+                      onClick={(e) => handleRowClick(e, seg.segment_id)}
+                      className={`group cursor-pointer border-b border-black/4 transition-colors ${
+                        isSelected ? "bg-[#FFE650]/25" : "hover:bg-black/3"
+                      }`}
+                    >
+                      <td className="py-1.5 pr-2 pl-6 font-mono text-black/45">
+                        {seg.segment_id}
+                        {highlighted.has(seg.segment_id) && !isSelected && (
+                          <span className="ml-1.5 inline-block h-1.5 w-1.5 rounded-full bg-[#FFE650]" title="Highlighted by the assistant" />
+                        )}
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <span className="flex items-center gap-1.5 font-semibold text-black/60">
+                          <span
+                            className="inline-block h-2 w-2 rounded-full"
+                            style={c ? { backgroundColor: `rgb(${c[0]}, ${c[1]}, ${c[2]})` } : undefined}
+                          />
+                          {seg.type}
+                        </span>
+                      </td>
+                      {NUMERIC_COLUMNS.map((col) => {
+                        const v = numericValue(seg, col.key);
+                        return (
+                          <td key={col.key} className="px-2 py-1.5 text-right font-mono text-black/55">
+                            {v === undefined ? "—" : `${v.toFixed(col.digits)}${col.unit ?? ""}`}
+                          </td>
+                        );
+                      })}
+                      <td className="pr-6 text-right">
+                        <button
+                          onClick={(e) => { e.stopPropagation(); onZoomToSegment(seg.segment_id); }}
+                          title="Zoom to segment"
+                          className="inline-flex h-6 w-6 items-center justify-center rounded-md text-black/25 opacity-0 transition-all group-hover:opacity-100 hover:bg-black/5 hover:text-black/60"
+                        >
+                          <Crosshair size={12} strokeWidth={2} />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={NUMERIC_COLUMNS.length + 3} className="px-6 py-4 text-center text-[12px] font-medium text-black/25">
+                      No segments match the filters
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
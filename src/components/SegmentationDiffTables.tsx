@@ -0,0 +1,174 @@
+"use client";
+
+import type { SegmentationDiff } from "@/lib/sessionDiff";
+import { SEGMENT_COLORS } from "./meshConstants";
+
+/* ── Formatting ── */
+
+function formatLength(v: number): string {
+  return v.toFixed(2);
+}
+
+function Delta({ a, b, digits = 0 }: { a: number; b: number; digits?: number }) {
+  const d = b - a;
+  if (Math.abs(d) < 10 ** -digits / 2) return <span className="text-black/25">—</span>;
+  return (
+    <span className={d > 0 ? "text-[#2E7D5B]" : "text-red-500/75"}>
+      {d > 0 ? "+" : ""}
+      {d.toFixed(digits)}
+    </span>
+  );
+}
+
+function TypeDot({ type }: { type: string }) {
+  const c = SEGMENT_COLORS[type];
+  return (
+    <span
+      className="inline-block h-2 w-2 shrink-0 rounded-full"
+      style={c ? { backgroundColor: `rgb(${c[0]}, ${c[1]}, ${c[2]})` } : { backgroundColor: "rgba(0,0,0,0.2)" }}
+    />
+  );
+}
+
+/* ── Diff tables ── */
+
+/** Segment ids to highlight on each side */
+export type DiffFocus = { a: number[]; b: number[] };
+
+/** Per-type counts and lengths, plus segments paired by position — A is the baseline */
+export default function SegmentationDiffTables({
+  diff,
+  onFocus,
+  onFocusType,
+}: {
+  diff: SegmentationDiff;
+  onFocus: (focus: DiffFocus, zoom?: boolean) => void;
+  onFocusType: (type: string) => void;
+}) {
+  const totalA = diff.types.reduce((n, t) => n + t.countA, 0);
+  const totalB = diff.types.reduce((n, t) => n + t.countB, 0);
+  const th = "px-2 py-1.5 font-semibold text-black/40";
+  const td = "px-2 py-1 font-mono text-black/55";
+
+  return (
+    <div className="grid grid-cols-1 gap-x-8 gap-y-4 px-6 py-4 xl:grid-cols-2">
+      {/* By type */}
+      <section>
+        <h4 className="mb-1.5 text-[11px] font-bold tracking-wider text-black/35 uppercase">By type</h4>
+        <table className="w-full text-[12px]">
+          <thead>
+            <tr className="border-b border-black/8 text-right">
+              <th className={`${th} text-left`}>Type</th>
+              <th className={th}>Count A</th>
+              <th className={th}>Count B</th>
+              <th className={th}>Δ</th>
+              <th className={th}>Length A</th>
+              <th className={th}>Length B</th>
+              <th className={th}>Δ</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diff.types.map((t) => (
+              <tr
+                key={t.type}
+                onClick={() => onFocusType(t.type)}
+                className="cursor-pointer border-b border-black/4 text-right transition-colors hover:bg-black/3"
+              >
+                <td className="px-2 py-1 text-left">
+                  <span className="flex items-center gap-1.5 font-semibold text-black/60">
+                    <TypeDot type={t.type} />
+                    {t.type}
+                  </span>
+                </td>
+                <td className={td}>{t.countA}</td>
+                <td className={td}>{t.countB}</td>
+                <td className={td}><Delta a={t.countA} b={t.countB} /></td>
+                <td className={td}>{formatLength(t.lengthA)}</td>
+                <td className={td}>{formatLength(t.lengthB)}</td>
+                <td className={td}><Delta a={t.lengthA} b={t.lengthB} digits={2} /></td>
+              </tr>
+            ))}
+            <tr className="text-right font-semibold">
+              <td className="px-2 py-1 text-left text-black/55">Total</td>
+              <td className={td}>{totalA}</td>
+              <td className={td}>{totalB}</td>
+              <td className={td}><Delta a={totalA} b={totalB} /></td>
+              <td className={td}>{formatLength(diff.totalLengthA)}</td>
+              <td className={td}>{formatLength(diff.totalLengthB)}</td>
+              <td className={td}><Delta a={diff.totalLengthA} b={diff.totalLengthB} digits={2} /></td>
+            </tr>
+          </tbody>
+        </table>
+      </section>
+
+      {/* Matched segments */}
+      <section>
+        <h4 className="mb-1.5 flex items-baseline gap-2 text-[11px] font-bold tracking-wider text-black/35 uppercase">
+          Matched segments
+          <span className="font-medium tracking-normal normal-case text-black/25">
+            {diff.matches.length} pairs · centroids within {diff.matchTolerance.toFixed(2)}
+          </span>
+        </h4>
+        <div className="max-h-48 overflow-y-auto">
+          <table className="w-full text-[12px]">
+            <thead className="sticky top-0 bg-[#F7F7F5]">
+              <tr className="border-b border-black/8 text-right">
+                <th className={`${th} text-left`}>A</th>
+                <th className={`${th} text-left`}>B</th>
+                <th className={`${th} text-left`}>Type</th>
+                <th className={th}>Length A</th>
+                <th className={th}>Length B</th>
+                <th className={th}>Δ</th>
+                <th className={th}>Offset</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.matches.map(({ a, b, distance }) => (
+                <tr
+                  key={`${a.segment_id}-${b.segment_id}`}
+                  onClick={() => onFocus({ a: [a.segment_id], b: [b.segment_id] }, true)}
+                  className="cursor-pointer border-b border-black/4 text-right transition-colors hover:bg-black/3"
+                >
+                  <td className={`${td} text-left`}>#{a.segment_id}</td>
+                  <td className={`${td} text-left`}>#{b.segment_id}</td>
+                  <td className="px-2 py-1 text-left">
+                    <span className="flex items-center gap-1 font-semibold text-black/60">
+                      <TypeDot type={a.type} />
+                      {a.type}
+                      {b.type !== a.type && (
+                        <>
+                          <span className="text-black/30">→</span>
+                          <TypeDot type={b.type} />
+                          {b.type}
+                        </>
+                      )}
+                    </span>
+                  </td>
+                  <td className={td}>{formatLength(a.length)}</td>
+                  <td className={td}>{formatLength(b.length)}</td>
+                  <td className={td}><Delta a={a.length} b={b.length} digits={2} /></td>
+                  <td className={td}>{distance.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {(diff.onlyA.length > 0 || diff.onlyB.length > 0) && (
+          <div className="mt-2 flex flex-col gap-1 text-[12px]">
+            {([["A", diff.onlyA], ["B", diff.onlyB]] as const).map(([side, segs]) =>
+              segs.length ? (
+                <button
+                  key={side}
+                  onClick={() => onFocus(side === "A" ? { a: segs.map((s) => s.segment_id), b: [] } : { a: [], b: segs.map((s) => s.segment_id) })}
+                  className="text-left font-medium text-black/45 transition-colors hover:text-black/70"
+                >
+                  Only in {side}: <span className="font-mono">{segs.map((s) => `#${s.segment_id}`).join(", ")}</span>
+                </button>
+              ) : null,
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import { useState } from "react";
+import { X, Play, Loader2, Bookmark } from "lucide-react";
+import {
+  BUILTIN_PRESETS,
+  DEFAULT_SEGMENTATION_PARAMS,
+  TARGET_STEP_RANGE,
+  DOWNSAMPLE_NODES_RANGE,
+  toDraft,
+  validateDraft,
+  sameParams,
+  loadMeshPreset,
+  saveMeshPreset,
+  clearMeshPreset,
+  type SegmentationParams,
+  type SegmentationDraft,
+} from "@/lib/segmentationParams";
+
+interface SegmentationSettingsProps {
+  sessionId: string;
+  /** Parameters of the run currently shown, when known */
+  current: SegmentationParams | null;
+  /** The session already has segments — running again keeps them for comparison */
+  hasResult: boolean;
+  /** A segmentation is already running */
+  running: boolean;
+  onRun: (params: SegmentationParams) => void;
+  onClose: () => void;
+}
+
+function Field({
+  label,
+  hint,
+  error,
+  children,
+}: {
+  label: string;
+  hint: string;
+  error?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <label className="block">
+      <span className="mb-1 block text-[12px] font-semibold text-black/60">{label}</span>
+      {children}
+      {error ? (
+        <span className="mt-1 block text-[11px] font-medium text-red-500/80">{error}</span>
+      ) : (
+        <span className="mt-1 block text-[11px] leading-snug text-black/35">{hint}</span>
+      )}
+    </label>
+  );
+}
+
+/** Segmentation parameters for the active session — presets, validation, re-run */
+export default function SegmentationSettings({ sessionId, current, hasResult, running, onRun, onClose }: SegmentationSettingsProps) {
+  const [meshPreset, setMeshPreset] = useState(() => loadMeshPreset(sessionId));
+  const [draft, setDraft] = useState<SegmentationDraft>(() => toDraft(meshPreset ?? current ?? DEFAULT_SEGMENTATION_PARAMS));
+  const checked = validateDraft(draft);
+  const errors = checked.errors ?? {};
+
+  const presets = meshPreset
+    ? [{ name: "This mesh", description: "Saved for this mesh", params: meshPreset }, ...BUILTIN_PRESETS]
+    : BUILTIN_PRESETS;
+
+  function saveForMesh() {
+    if (!checked.params) return;
+    saveMeshPreset(sessionId, checked.params);
+    setMeshPreset(checked.params);
+  }
+
+  function forgetForMesh() {
+    clearMeshPreset(sessionId);
+    setMeshPreset(null);
+  }
+
+  const inputClass = (invalid: boolean) =>
+    `w-full rounded-md border bg-white px-2.5 py-1.5 font-mono text-[13px] text-black/75 outline-none ${
+      invalid ? "border-red-400/60" : "border-black/10 focus:border-black/25"
+    }`;
+
+  return (
+    <div className="w-80 rounded-xl border border-black/8 bg-white/95 shadow-lg backdrop-blur-md animate-fade-in">
+      <div className="flex items-center justify-between border-b border-black/6 px-4 py-3">
+        <h3 className="text-[13px] font-semibold tracking-wide text-black/55 uppercase">Segmentation settings</h3>
+        <button
+          onClick={onClose}
+          className="flex h-6 w-6 items-center justify-center rounded-md text-black/30 transition-colors hover:bg-black/5 hover:text-black/60"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-4 px-4 py-3.5">
+        {/* Presets */}
+        <div className="flex flex-wrap gap-1.5">
+          {presets.map((preset) => {
+            const active = checked.params ? sameParams(checked.params, preset.params) : false;
+            return (
+              <button
+                key={preset.name}
+                onClick={() => setDraft(toDraft(preset.params))}
+                title={preset.description}
+                className={`rounded-md px-2.5 py-1 text-[12px] font-semibold transition-colors ${
+                  active ? "bg-black/10 text-black/75" : "bg-black/4 text-black/45 hover:bg-black/8 hover:text-black/65"
+                }`}
+              >
+                {preset.name}
+              </button>
+            );
+          })}
+        </div>
+
+        <Field
+          label="Target step"
+          error={errors.target_step}
+          hint="Spacing between centerline samples, in mesh units. Smaller steps follow tight bends and small features but take longer, and can split noisy regions into extra segments."
+        >
+          <input
+            type="number"
+            step="0.05"
+            min={TARGET_STEP_RANGE.min}
+            max={TARGET_STEP_RANGE.max}
+            value={draft.target_step}
+            onChange={(e) => setDraft((d) => ({ ...d, target_step: e.target.value }))}
+            className={inputClass(!!errors.target_step)}
+          />
+        </Field>
+
+        <Field
+          label="Downsampled nodes per segment"
+          error={errors.downsample_nodes}
+          hint="Points kept to describe each segment's shape. More points preserve detail for comparisons and similarity search; fewer make the run faster."
+        >
+          <input
+            type="number"
+            step="1"
+            min={DOWNSAMPLE_NODES_RANGE.min}
+            max={DOWNSAMPLE_NODES_RANGE.max}
+            value={draft.downsample_nodes}
+            onChange={(e) => setDraft((d) => ({ ...d, downsample_nodes: e.target.value }))}
+            className={inputClass(!!errors.downsample_nodes)}
+          />
+        </Field>
+
+        <label className="flex cursor-pointer items-start gap-2.5">
+          <input
+            type="checkbox"
+            checked={draft.embed}
+            onChange={(e) => setDraft((d) => ({ ...d, embed: e.target.checked }))}
+            className="mt-0.5 accent-black/60"
+          />
+          <span>
+            <span className="block text-[12px] font-semibold text-black/60">Compute embeddings</span>
+            <span className="mt-0.5 block text-[11px] leading-snug text-black/35">
+              Lets the assistant find similar segments. Turn off for a faster run when you only need the segmentation.
+            </span>
+          </span>
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 border-t border-black/6 px-4 py-3">
+        {meshPreset && checked.params && sameParams(meshPreset, checked.params) ? (
+          <button onClick={forgetForMesh} className="text-[12px] font-semibold text-black/35 transition-colors hover:text-black/65">
+            Forget for this mesh
+          </button>
+        ) : (
+          <button
+            onClick={saveForMesh}
+            disabled={!checked.params}
+            className="flex items-center gap-1 text-[12px] font-semibold text-black/35 transition-colors hover:text-black/65 disabled:opacity-40"
+          >
+            <Bookmark size={11} />
+            Save for this mesh
+          </button>
+        )}
+        <button
+          onClick={() => checked.params && onRun(checked.params)}
+          disabled={!checked.params || running}
+          title={hasResult ? "The current result is kept for comparison" : undefined}
+          className="flex items-center gap-1.5 rounded-lg bg-black/80 px-3 py-1.5 text-[12px] font-semibold text-white transition-colors hover:bg-black disabled:cursor-not-allowed disabled:opacity-30"
+        >
+          {running ? <Loader2 size={12} className="animate-spin" /> : <Play size={11} className="fill-current" />}
+          {hasResult ? "Re-run" : "Run"} segmentation
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import dynamic from "next/dynamic";
+import { getSegments, sessionDisplayName, type SegmentResult, type SessionInfo } from "@/lib/api";
+import { diffSegmentations } from "@/lib/sessionDiff";
+import { isAbortError } from "@/lib/abort";
+import type { MeshViewerHandle } from "./meshConstants";
+import SegmentationDiffTables, { type DiffFocus } from "./SegmentationDiffTables";
+import { X, Link2, Unlink, Loader2 } from "lucide-react";
+
+const MeshViewer = dynamic(() => import("./MeshViewer"), { ssr: false });
+
+/* ── Compare view ── */
+
+interface SessionCompareProps {
+  uid: string;
+  /** The active session (A) — its segments are already loaded */
+  sessionA: SessionInfo;
+  resultA: SegmentResult | null;
+  /** The session to compare against (B) */
+  sessionB: SessionInfo;
+  opacity: number;
+  onClose: () => void;
+}
+
+const NO_IDS: number[] = [];
+
+/** Two sessions side by side — linked cameras and a diff of their segmentations */
+export default function SessionCompare({ uid, sessionA, resultA, sessionB, opacity, onClose }: SessionCompareProps) {
+  const idA = sessionA.session_id;
+  const idB = sessionB.session_id;
+  const [loadedB, setLoadedB] = useState<{ sessionId: string; result: SegmentResult | null; error: string | null } | null>(null);
+  const loadingB = loadedB?.sessionId !== idB;
+  const resultB = loadingB ? null : loadedB.result;
+
+  const [linked, setLinked] = useState(true);
+  const [focus, setFocus] = useState<DiffFocus>({ a: [], b: [] });
+
+  useEffect(() => {
+    let cancelled = false;
+    getSegments(uid, idB)
+      .then((result) => {
+        if (!cancelled) setLoadedB({ sessionId: idB, result, error: null });
+      })
+      .catch((err) => {
+        if (cancelled || isAbortError(err)) return;
+        setLoadedB({ sessionId: idB, result: null, error: err instanceof Error ? err.message : String(err) });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uid, idB]);
+
+  const diff = useMemo(() => (resultA && resultB ? diffSegmentations(resultA, resultB) : null), [resultA, resultB]);
+
+  // ── Linked cameras — each viewer follows the other; setCamera doesn't echo back ──
+  const viewerA = useRef<MeshViewerHandle | null>(null);
+  const viewerB = useRef<MeshViewerHandle | null>(null);
+  const unlinkRef = useRef<(() => void) | null>(null);
+
+  const relink = useCallback(() => {
+    unlinkRef.current?.();
+    unlinkRef.current = null;
+    const a = viewerA.current;
+    const b = viewerB.current;
+    if (!linked || !a || !b) return;
+    const offA = a.onCameraChange((state) => b.setCamera(state));
+    const offB = b.onCameraChange((state) => a.setCamera(state));
+    unlinkRef.current = () => {
+      offA();
+      offB();
+    };
+    const state = a.getCamera();
+    if (state) b.setCamera(state);
+  }, [linked]);
+
+  useEffect(() => {
+    relink();
+    return () => {
+      unlinkRef.current?.();
+      unlinkRef.current = null;
+    };
+  }, [relink]);
+
+  const attachA = useCallback((handle: MeshViewerHandle | null) => {
+    viewerA.current = handle;
+    relink();
+  }, [relink]);
+
+  const attachB = useCallback((handle: MeshViewerHandle | null) => {
+    viewerB.current = handle;
+    relink();
+  }, [relink]);
+
+  function handleFocus(next: DiffFocus, zoom = false) {
+    setFocus(next);
+    if (!zoom) return;
+    // Linked: B follows A's zoom
+    if (next.a[0] !== undefined) viewerA.current?.zoomToSegment(next.a[0]);
+    if (!linked && next.b[0] !== undefined) viewerB.current?.zoomToSegment(next.b[0]);
+  }
+
+  function handleFocusType(type: string) {
+    const ofType = (result: SegmentResult | null) =>
+      result?.segments.filter((s) => s.type === type).map((s) => s.segment_id) ?? [];
+    setFocus({ a: ofType(resultA), b: ofType(resultB) });
+  }
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col">
+      {/* Header */}
+      <div className="flex h-10 shrink-0 items-center gap-3 border-b border-black/6 bg-[#F7F7F5] px-6 text-[12px]">
+        <span className="font-semibold text-black/60"><span className="text-black/30">A</span> {sessionDisplayName(sessionA)}</span>
+        <span className="text-black/25">↔</span>
+        <span className="font-semibold text-black/60"><span className="text-black/30">B</span> {sessionDisplayName(sessionB)}</span>
+        <button
+          onClick={() => setLinked((v) => !v)}
+          className={`ml-auto flex items-center gap-1.5 rounded-md px-2 py-1 font-semibold transition-colors ${
+            linked ? "bg-black/8 text-black/60" : "text-black/35 hover:bg-black/5 hover:text-black/60"
+          }`}
+          title={linked ? "Cameras move together" : "Cameras move independently"}
+        >
+          {linked ? <Link2 size={12} /> : <Unlink size={12} />}
+          {linked ? "Linked" : "Unlinked"}
+        </button>
+        <button
+          onClick={onClose}
+          className="flex items-center gap-1 rounded-md px-2 py-1 font-semibold text-black/40 transition-colors hover:bg-black/5 hover:text-black/70"
+        >
+          <X size={12} />
+          Exit compare
+        </button>
+      </div>
+
+      {/* Viewers */}
+      <div className="grid min-h-0 flex-1 grid-cols-2 divide-x divide-black/8 bg-[#F8F8F6]">
+        <div className="relative min-h-0">
+          <MeshViewer
+            ref={attachA}
+            uid={uid}
+            sessionId={idA}
+            segmentResult={resultA}
+            highlightIds={focus.a.length ? focus.a : NO_IDS}
+            processing={false}
+            opacity={opacity}
+            autoRotate={false}
+          />
+        </div>
+        <div className="relative min-h-0">
+          <MeshViewer
+            ref={attachB}
+            uid={uid}
+            sessionId={idB}
+            segmentResult={resultB}
+            highlightIds={focus.b.length ? focus.b : NO_IDS}
+            processing={loadingB}
+            opacity={opacity}
+            autoRotate={false}
+          />
+        </div>
+      </div>
+
+      {/* Diff */}
+      <div className="max-h-[45%] shrink-0 overflow-y-auto border-t border-black/8 bg-[#F7F7F5]">
+        {diff ? (
+          <SegmentationDiffTables diff={diff} onFocus={handleFocus} onFocusType={handleFocusType} />
+        ) : (
+          <div className="flex items-center gap-2 px-6 py-4 text-[12px] font-medium text-black/35">
+            {loadingB ? (
+              <>
+                <Loader2 size={12} className="animate-spin" />
+                Loading segments for B…
+              </>
+            ) : loadedB?.error ? (
+              <span className="text-red-500/70">Could not load segments for B: {loadedB.error}</span>
+            ) : (
+              `${resultA ? "B" : "A"} hasn't been segmented yet — nothing to diff.`
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Search, X, Loader2 } from "lucide-react";
+import type { SessionInfo, SessionSearchHit } from "@/lib/api";
+import { isAbortError } from "@/lib/abort";
+import {
+  SESSION_SORTS,
+  sortSessions,
+  groupSessions,
+  loadPins,
+  savePins,
+  findSessions,
+  type SessionSort,
+} from "@/lib/sessionHistory";
+import SessionListItem from "./SessionListItem";
+
+/** Wait for a pause in typing before searching — chat search may hit the backend */
+const SEARCH_DEBOUNCE_MS = 250;
+
+interface SessionHistoryProps {
+  uid: string;
+  sessions: SessionInfo[];
+  activeSession: string | null;
+  compareSession: string | null;
+  onSelect: (sid: string) => void;
+  onCompare: (sid: string) => void;
+  onRename: (sid: string, name: string) => Promise<void>;
+  onDelete: (sid: string) => Promise<void>;
+}
+
+/** The history sidebar list — search, sort, day groups and pinned favourites */
+export default function SessionHistory({
+  uid,
+  sessions,
+  activeSession,
+  compareSession,
+  onSelect,
+  onCompare,
+  onRename,
+  onDelete,
+}: SessionHistoryProps) {
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<SessionSort>("newest");
+  const [pins, setPins] = useState<string[]>(loadPins);
+  const [search, setSearch] = useState<{ query: string; hits: SessionSearchHit[]; error?: string } | null>(null);
+
+  const trimmed = query.trim();
+  const searching = !!trimmed && search?.query !== trimmed;
+
+  useEffect(() => {
+    if (!trimmed) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      findSessions(uid, sessions, trimmed, controller.signal)
+        .then((hits) => setSearch({ query: trimmed, hits }))
+        .catch((err) => {
+          if (isAbortError(err)) return;
+          setSearch({ query: trimmed, hits: [], error: err instanceof Error ? err.message : String(err) });
+        });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [uid, sessions, trimmed]);
+
+  const snippets = useMemo(
+    () => new Map((trimmed && search ? search.hits : []).map((h) => [h.session_id, h.snippet])),
+    [trimmed, search],
+  );
+
+  const groups = useMemo(() => {
+    // While a new search runs, keep showing the previous results
+    const visible = trimmed && search ? sessions.filter((s) => snippets.has(s.session_id)) : sessions;
+    return groupSessions(sortSessions(visible, sort), sort, pins);
+  }, [sessions, trimmed, search, snippets, sort, pins]);
+
+  function togglePin(sid: string) {
+    setPins((prev) => {
+      const next = prev.includes(sid) ? prev.filter((id) => id !== sid) : [...prev, sid];
+      savePins(next);
+      return next;
+    });
+  }
+
+  const active = activeSession ? sessions.find((s) => s.session_id === activeSession) ?? null : null;
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col">
+      {/* Search + sort */}
+      <div className="flex shrink-0 flex-col gap-2 px-3 pb-3">
+        <div className="flex items-center gap-2 rounded-lg border border-black/8 bg-white px-2.5 py-1.5 focus-within:border-black/20">
+          {searching ? (
+            <Loader2 size={13} className="shrink-0 animate-spin text-black/30" />
+          ) : (
+            <Search size={13} className="shrink-0 text-black/30" />
+          )}
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === "Escape" && setQuery("")}
+            placeholder="Search names and chats"
+            className="min-w-0 flex-1 bg-transparent text-[13px] text-black/75 outline-none placeholder:text-black/30"
+          />
+          {query && (
+            <button onClick={() => setQuery("")} className="shrink-0 text-black/30 transition-colors hover:text-black/60">
+              <X size={13} />
+            </button>
+          )}
+        </div>
+        <div className="flex items-center justify-between text-[12px]">
+          <span className="font-medium text-black/30">
+            {trimmed && search && !searching ? `${search.hits.length} of ${sessions.length}` : `${sessions.length} sessions`}
+          </span>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as SessionSort)}
+            className="rounded-md border border-black/10 bg-white px-1.5 py-1 text-[12px] font-medium text-black/60 outline-none"
+          >
+            {SESSION_SORTS.map((s) => (
+              <option key={s.value} value={s.value}>{s.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Groups */}
+      <div className="flex-1 overflow-y-auto px-3 pb-3">
+        {search?.error && trimmed && <p className="px-2 py-1 text-[12px] font-medium text-red-500/70">{search.error}</p>}
+        {groups.length === 0 && trimmed && !searching ? (
+          <p className="px-2 py-6 text-center text-[13px] font-medium text-black/30">No sessions match “{trimmed}”</p>
+        ) : (
+          groups.map((group) => (
+            <section key={group.label || "all"} className="mb-3">
+              {group.label && (
+                <h3 className="px-3.5 pb-1 text-[11px] font-bold tracking-wider text-black/30 uppercase">{group.label}</h3>
+              )}
+              <ul className="space-y-1">
+                {group.sessions.map((session) => (
+                  <SessionListItem
+                    key={session.session_id}
+                    session={session}
+                    active={activeSession === session.session_id}
+                    compareWith={active && active.session_id !== session.session_id ? active : null}
+                    comparing={compareSession === session.session_id}
+                    pinned={pins.includes(session.session_id)}
+                    snippet={snippets.get(session.session_id)}
+                    onSelect={() => onSelect(session.session_id)}
+                    onCompare={() => onCompare(session.session_id)}
+                    onTogglePin={() => togglePin(session.session_id)}
+                    onRename={(name) => onRename(session.session_id, name)}
+                    onDelete={() => onDelete(session.session_id)}
+                  />
+                ))}
+              </ul>
+            </section>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
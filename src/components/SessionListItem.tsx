@@ -0,0 +1,209 @@
+"use client";
+
+import { useState } from "react";
+import { MessageSquare, Pencil, Trash2, GitCompare, Check, X, Loader2, Pin, PinOff } from "lucide-react";
+import { sessionDisplayName, type SessionInfo } from "@/lib/api";
+
+function formatCreated(createdAt: string | undefined): string | null {
+  if (!createdAt) return null;
+  const date = new Date(createdAt);
+  if (Number.isNaN(date.getTime())) return null;
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString([], { month: "short", day: "numeric", year: "numeric" });
+}
+
+interface SessionListItemProps {
+  session: SessionInfo;
+  active: boolean;
+  /** Offer "compare with the active session" — set when another session is open */
+  compareWith: SessionInfo | null;
+  comparing: boolean;
+  pinned: boolean;
+  /** Search match from the chat, shown instead of the upload details */
+  snippet?: string;
+  onSelect: () => void;
+  onCompare: () => void;
+  onTogglePin: () => void;
+  onRename: (name: string) => Promise<void>;
+  onDelete: () => Promise<void>;
+}
+
+/** One history entry — name, upload details, and rename/delete/compare actions on hover */
+export default function SessionListItem({
+  session,
+  active,
+  compareWith,
+  comparing,
+  pinned,
+  snippet,
+  onSelect,
+  onCompare,
+  onTogglePin,
+  onRename,
+  onDelete,
+}: SessionListItemProps) {
+  const [mode, setMode] = useState<"idle" | "renaming" | "confirmDelete">("idle");
+  const [draftName, setDraftName] = useState("");
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState("");
+
+  const name = sessionDisplayName(session);
+  const created = formatCreated(session.created_at);
+  const details = [
+    created,
+    session.num_nodes !== undefined ? `${session.num_nodes.toLocaleString()} nodes` : null,
+    session.num_edges !== undefined ? `${session.num_edges.toLocaleString()} edges` : null,
+  ].filter(Boolean);
+
+  async function run(action: () => Promise<void>) {
+    setPending(true);
+    setError("");
+    try {
+      await action();
+      setMode("idle");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPending(false);
+    }
+  }
+
+  function startRename() {
+    setDraftName(session.name || session.file_name || "");
+    setError("");
+    setMode("renaming");
+  }
+
+  function submitRename() {
+    const next = draftName.trim();
+    if (!next || next === session.name) {
+      setMode("idle");
+      return;
+    }
+    run(() => onRename(next));
+  }
+
+  const iconButton =
+    "flex h-6 w-6 items-center justify-center rounded-md text-black/35 transition-colors hover:bg-black/8 hover:text-black/70 disabled:opacity-40";
+
+  if (mode === "renaming") {
+    return (
+      <li className="rounded-lg bg-black/4 px-3 py-2.5">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitRename();
+          }}
+          className="flex items-center gap-1.5"
+        >
+          <input
+            autoFocus
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onKeyDown={(e) => e.key === "Escape" && setMode("idle")}
+            disabled={pending}
+            maxLength={120}
+            className="min-w-0 flex-1 rounded-md border border-black/10 bg-white px-2 py-1 text-[13px] font-semibold text-black/75 outline-none focus:border-black/25"
+          />
+          <button type="submit" disabled={pending} title="Save" className={iconButton}>
+            {pending ? <Loader2 size={12} className="animate-spin" /> : <Check size={13} />}
+          </button>
+          <button type="button" onClick={() => setMode("idle")} disabled={pending} title="Cancel" className={iconButton}>
+            <X size={13} />
+          </button>
+        </form>
+        {error && <p className="mt-1.5 text-[11px] font-medium text-red-500/75">{error}</p>}
+      </li>
+    );
+  }
+
+  if (mode === "confirmDelete") {
+    return (
+      <li className="rounded-lg bg-red-500/5 px-3.5 py-2.5">
+        <p className="truncate text-[12px] font-semibold text-black/60">Delete “{name}”?</p>
+        <p className="mt-0.5 text-[11px] text-black/35">Its mesh, segments and chat are removed for good.</p>
+        {error && <p className="mt-1 text-[11px] font-medium text-red-500/75">{error}</p>}
+        <div className="mt-2 flex justify-end gap-1.5">
+          <button
+            onClick={() => setMode("idle")}
+            disabled={pending}
+            className="rounded-md px-2.5 py-1 text-[12px] font-semibold text-black/45 transition-colors hover:bg-black/5 hover:text-black/70"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => run(onDelete)}
+            disabled={pending}
+            className="flex items-center gap-1.5 rounded-md bg-red-500/80 px-2.5 py-1 text-[12px] font-semibold text-white transition-colors hover:bg-red-500 disabled:opacity-50"
+          >
+            {pending && <Loader2 size={11} className="animate-spin" />}
+            Delete
+          </button>
+        </div>
+      </li>
+    );
+  }
+
+  return (
+    <li className="group relative">
+      <button
+        onClick={onSelect}
+        title={session.file_name && session.file_name !== name ? session.file_name : undefined}
+        className={`flex w-full items-center gap-2.5 rounded-lg px-3.5 py-2.5 text-left transition-colors ${
+          active ? "bg-black/8 text-black/85" : "text-black/50 hover:bg-black/4 hover:text-black/70"
+        }`}
+      >
+        {pinned ? (
+          <Pin size={15} strokeWidth={1.8} className="shrink-0 opacity-50" />
+        ) : (
+          <MessageSquare size={15} strokeWidth={1.8} className="shrink-0 opacity-50" />
+        )}
+        <span className="min-w-0 flex-1">
+          <span className="block truncate text-[13px] font-semibold">{name}</span>
+          {snippet ? (
+            <span className="block truncate text-[11px] font-medium text-black/40 italic">{snippet}</span>
+          ) : (
+            details.length > 0 && (
+              <span className="block truncate text-[11px] font-medium text-black/30">{details.join(" · ")}</span>
+            )
+          )}
+        </span>
+        {session.file_type && (
+          <span className="shrink-0 rounded bg-black/5 px-1.5 py-0.5 font-mono text-[10px] font-bold text-black/35 uppercase">
+            {session.file_type}
+          </span>
+        )}
+      </button>
+
+      <div
+        className={`absolute top-1/2 right-2 flex -translate-y-1/2 items-center gap-0.5 rounded-md bg-[#F7F7F5] p-0.5 shadow-sm transition-opacity ${
+          comparing ? "opacity-100" : "opacity-0 group-hover:opacity-100 focus-within:opacity-100"
+        }`}
+      >
+        {compareWith && (
+          <button onClick={onCompare} title={`Compare with ${sessionDisplayName(compareWith)}`} className={iconButton}>
+            <GitCompare size={12} />
+          </button>
+        )}
+        <button onClick={onTogglePin} title={pinned ? "Unpin" : "Pin"} className={iconButton}>
+          {pinned ? <PinOff size={12} /> : <Pin size={12} />}
+        </button>
+        <button onClick={startRename} title="Rename" className={iconButton}>
+          <Pencil size={12} />
+        </button>
+        <button
+          onClick={() => {
+            setError("");
+            setMode("confirmDelete");
+          }}
+          title="Delete"
+          className={iconButton}
+        >
+          <Trash2 size={12} />
+        </button>
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import { Share2, Link2, Copy, Check, Trash2, Loader2 } from "lucide-react";
+import { createShareLink, listShareLinks, revokeShareLink, type ShareLink } from "@/lib/api";
+import type { MeshViewerHandle } from "./meshConstants";
+
+interface ShareMenuProps {
+  uid: string;
+  sessionId: string;
+  /** Highlighted segments at the time the link is created */
+  highlightIds: number[];
+  getViewer: () => MeshViewerHandle | null;
+}
+
+function shareUrl(token: string): string {
+  return `${window.location.origin}/share/${encodeURIComponent(token)}`;
+}
+
+function formatCreated(createdAt: string | undefined): string {
+  if (!createdAt) return "";
+  const date = new Date(createdAt);
+  return Number.isNaN(date.getTime()) ? "" : date.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+/** Create, copy and revoke read-only links to the active session */
+export default function ShareMenu({ uid, sessionId, highlightIds, getViewer }: ShareMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [links, setLinks] = useState<ShareLink[] | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  async function handleOpen() {
+    if (open) {
+      setOpen(false);
+      return;
+    }
+    setOpen(true);
+    setLinks(null);
+    setError("");
+    try {
+      setLinks(await listShareLinks(uid, sessionId));
+    } catch (err) {
+      setLinks([]);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  async function handleCopy(token: string) {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      setCopied(token);
+      setTimeout(() => setCopied((t) => (t === token ? null : t)), 1500);
+    } catch {
+      setError("Couldn't copy — select the link and copy it by hand");
+    }
+  }
+
+  async function handleCreate() {
+    setCreating(true);
+    setError("");
+    try {
+      // The link opens on what's on screen now — highlights and camera pose
+      const link = await createShareLink(uid, sessionId, {
+        highlight_ids: highlightIds,
+        camera: getViewer()?.getCamera() ?? undefined,
+      });
+      console.log("[Share] 🔗 created link for", sessionId);
+      setLinks((prev) => [link, ...(prev ?? [])]);
+      handleCopy(link.token);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function handleRevoke(token: string) {
+    setRevoking(token);
+    setError("");
+    try {
+      await revokeShareLink(uid, sessionId, token);
+      console.log("[Share] 🗑️ revoked link for", sessionId);
+      setLinks((prev) => prev?.filter((l) => l.token !== token) ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRevoking(null);
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleOpen}
+        className={`flex h-7 w-7 items-center justify-center rounded-md transition-colors ${
+          open ? "bg-black/8 text-black/60" : "text-black/35 hover:bg-black/5 hover:text-black/60"
+        }`}
+        title="Share read-only link"
+      >
+        <Share2 size={14} strokeWidth={2} />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute top-9 right-0 z-50 w-80 overflow-hidden rounded-xl border border-black/8 bg-white/95 shadow-lg backdrop-blur-md animate-fade-in">
+            <div className="flex flex-col gap-2.5 px-4 py-3.5">
+              <p className="text-[11px] font-bold tracking-wider text-black/30 uppercase">Share</p>
+              <p className="text-[12px] leading-relaxed text-black/45">
+                Anyone with the link can view the mesh, segments and chat — from the current view
+                {highlightIds.length ? `, with ${highlightIds.length} highlighted` : ""}. They can&apos;t upload or ask questions.
+              </p>
+              <button
+                onClick={handleCreate}
+                disabled={creating}
+                className="flex items-center justify-center gap-1.5 rounded-lg bg-black/80 px-3 py-1.5 text-[12px] font-semibold text-white transition-colors hover:bg-black disabled:cursor-not-allowed disabled:opacity-30"
+              >
+                {creating ? <Loader2 size={12} className="animate-spin" /> : <Link2 size={12} />}
+                Create link
+              </button>
+            </div>
+
+            <div className="border-t border-black/6 py-1.5">
+              {links === null ? (
+                <div className="flex items-center gap-2 px-4 py-2 text-[12px] text-black/30">
+                  <Loader2 size={12} className="animate-spin" />
+                  Loading links…
+                </div>
+              ) : links.length === 0 ? (
+                <p className="px-4 py-2 text-[12px] text-black/30">No active links</p>
+              ) : (
+                links.map((link) => (
+                  <div key={link.token} className="group flex items-center gap-2 px-4 py-1.5">
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate font-mono text-[11px] text-black/55" title={shareUrl(link.token)}>
+                        /share/{link.token}
+                      </p>
+                      {link.created_at && <p className="text-[10px] text-black/30">{formatCreated(link.created_at)}</p>}
+                    </div>
+                    <button
+                      onClick={() => handleCopy(link.token)}
+                      className="flex h-6 w-6 shrink-0 items-center justify-center rounded text-black/35 hover:bg-black/5 hover:text-black/65"
+                      title="Copy link"
+                    >
+                      {copied === link.token ? <Check size={12} /> : <Copy size={12} />}
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(link.token)}
+                      disabled={revoking === link.token}
+                      className="flex h-6 w-6 shrink-0 items-center justify-center rounded text-black/35 hover:bg-red-50 hover:text-red-500/75 disabled:opacity-40"
+                      title="Revoke link"
+                    >
+                      {revoking === link.token ? <Loader2 size={12} className="animate-spin" /> : <Trash2 size={12} />}
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+            {error && <p className="px-4 pb-3 text-[11px] font-medium text-red-500/75">{error}</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import type { ToolCall } from "@/lib/api";
+import { ChevronRight, Wrench, Highlighter, Loader2 } from "lucide-react";
+
+/* ── Segment id detection ── */
+
+/** Keys whose numeric values are segment ids — those render as clickable chips */
+const SEGMENT_KEY = /(^|_)segment_ids?$|^highlight_ids$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Arrays of plain objects render as tables */
+function isRecordArray(value: unknown): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isRecord);
+}
+
+function numberList(value: unknown): number[] | null {
+  if (typeof value === "number") return [value];
+  if (Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === "number")) return value as number[];
+  return null;
+}
+
+type HighlightFn = (ids: number[]) => void;
+
+/* ── Renderers ── */
+
+function SegmentIds({ ids, onHighlight }: { ids: number[]; onHighlight: HighlightFn }) {
+  return (
+    <span className="inline-flex flex-wrap items-center gap-1">
+      {ids.map((id, i) => (
+        <button
+          key={`${id}-${i}`}
+          onClick={() => onHighlight([id])}
+          title={`Highlight segment ${id}`}
+          className="rounded bg-[#FFE650]/35 px-1.5 font-mono text-[11px] font-semibold text-black/65 transition-colors hover:bg-[#FFE650]"
+        >
+          #{id}
+        </button>
+      ))}
+      {ids.length > 1 && (
+        <button
+          onClick={() => onHighlight(ids)}
+          title="Highlight all"
+          className="flex h-4 w-4 items-center justify-center rounded text-black/30 transition-colors hover:bg-black/5 hover:text-black/60"
+        >
+          <Highlighter size={10} />
+        </button>
+      )}
+    </span>
+  );
+}
+
+function formatScalar(value: unknown): string {
+  if (typeof value === "number") return String(Number(value.toFixed(4)));
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+/** Pretty-printed JSON, with values under segment-id keys made clickable and record arrays as tables */
+function JsonValue({ value, name, onHighlight }: { value: unknown; name?: string; onHighlight: HighlightFn }): ReactNode {
+  const ids = name && SEGMENT_KEY.test(name) ? numberList(value) : null;
+  if (ids) return <SegmentIds ids={ids} onHighlight={onHighlight} />;
+  if (isRecordArray(value)) return <RecordTable rows={value} onHighlight={onHighlight} />;
+
+  if (Array.isArray(value) || isRecord(value)) {
+    const entries = Array.isArray(value) ? value.map((v, i) => [String(i), v] as const) : Object.entries(value);
+    const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"];
+    if (entries.length === 0) return <span>{open}{close}</span>;
+    // Short arrays of scalars stay on one line
+    if (Array.isArray(value) && value.length <= 8 && value.every((v) => !isRecord(v) && !Array.isArray(v))) {
+      return <span>[{value.map(formatScalar).join(", ")}]</span>;
+    }
+    return (
+      <span>
+        {open}
+        <span className="block pl-3">
+          {entries.map(([key, v]) => (
+            <span key={key} className="block">
+              {!Array.isArray(value) && <span className="text-black/40">{key}: </span>}
+              <JsonValue value={v} name={Array.isArray(value) ? name : key} onHighlight={onHighlight} />
+            </span>
+          ))}
+        </span>
+        {close}
+      </span>
+    );
+  }
+
+  return <span className={typeof value === "string" ? "text-[#2E7D5B]" : "text-[#3A6EA5]"}>{formatScalar(value)}</span>;
+}
+
+function RecordTable({ rows, onHighlight }: { rows: Record<string, unknown>[]; onHighlight: HighlightFn }) {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-[11px]">
+        <thead>
+          <tr className="border-b border-black/8 text-left">
+            {columns.map((col) => (
+              <th key={col} className="px-2 py-1 font-semibold whitespace-nowrap text-black/40">{col}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, i) => (
+            <tr key={i} className="border-b border-black/4 last:border-0">
+              {columns.map((col) => {
+                const value = row[col];
+                const ids = SEGMENT_KEY.test(col) ? numberList(value) : null;
+                return (
+                  <td key={col} className="px-2 py-1 align-top font-mono whitespace-nowrap text-black/60">
+                    {ids ? (
+                      <SegmentIds ids={ids} onHighlight={onHighlight} />
+                    ) : value === undefined ? (
+                      <span className="text-black/20">—</span>
+                    ) : isRecord(value) || Array.isArray(value) ? (
+                      JSON.stringify(value)
+                    ) : (
+                      formatScalar(value)
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/* ── Card ── */
+
+interface ToolCallCardProps {
+  call: ToolCall;
+  /** While an answer streams: "running" until the tool's result arrives */
+  status?: "running" | "done" | "failed";
+  error?: string;
+  /** Highlight segments in the viewer */
+  onHighlight: HighlightFn;
+}
+
+/** One tool invocation behind an assistant answer — collapsed to its name, expands to params and result */
+export default function ToolCallCard({ call, status = "done", error, onHighlight }: ToolCallCardProps) {
+  const [open, setOpen] = useState(false);
+  const params = Object.entries(call.params ?? {});
+  const result = call.result;
+  const summary = isRecordArray(result) ? `${result.length} rows` : Array.isArray(result) ? `${result.length} items` : null;
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-black/8 bg-[#FAFAF8]">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="flex w-full items-center gap-2 px-3 py-2 text-left transition-colors hover:bg-black/3"
+      >
+        <ChevronRight size={12} className={`shrink-0 text-black/30 transition-transform ${open ? "rotate-90" : ""}`} />
+        <Wrench size={11} className="shrink-0 text-black/30" />
+        <span className="font-mono text-[12px] font-semibold text-black/65">{call.tool}</span>
+        {status === "running" ? (
+          <Loader2 size={11} className="ml-auto animate-spin text-black/30" />
+        ) : status === "failed" ? (
+          <span className="ml-auto text-[11px] font-semibold text-red-500/70">failed</span>
+        ) : (
+          summary && <span className="ml-auto text-[11px] font-medium text-black/30">{summary}</span>
+        )}
+      </button>
+
+      {open && (
+        <div className="flex flex-col gap-2.5 border-t border-black/6 px-3 py-2.5">
+          <section>
+            <h4 className="mb-1 text-[10px] font-bold tracking-wider text-black/30 uppercase">Params</h4>
+            {params.length ? (
+              <div className="font-mono text-[11px] leading-relaxed text-black/60">
+                {params.map(([key, value]) => (
+                  <div key={key}>
+                    <span className="text-black/40">{key}: </span>
+                    <JsonValue value={value} name={key} onHighlight={onHighlight} />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <span className="text-[11px] text-black/25">none</span>
+            )}
+          </section>
+
+          <section>
+            <h4 className="mb-1 text-[10px] font-bold tracking-wider text-black/30 uppercase">Result</h4>
+            <div className="max-h-72 overflow-auto font-mono text-[11px] leading-relaxed break-all text-black/60">
+              {status === "running" ? (
+                <span className="font-sans text-black/30">Running…</span>
+              ) : error ? (
+                <span className="font-sans text-red-500/70">{error}</span>
+              ) : (
+                <JsonValue value={result} onHighlight={onHighlight} />
+              )}
+            </div>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { FileDown, FileText, FileCode, Loader2 } from "lucide-react";
+import type { SegmentResult } from "@/lib/api";
+import { downloadBlob } from "@/lib/exportResults";
+import {
+  blobToDataUrl,
+  transcriptToHtml,
+  transcriptToMarkdown,
+  type TranscriptFormat,
+  type TranscriptMessage,
+} from "@/lib/transcript";
+import type { MeshViewerHandle } from "./meshConstants";
+
+const FORMATS: { format: TranscriptFormat; label: string; hint: string; icon: typeof FileText }[] = [
+  { format: "md", label: "Markdown", hint: ".md — snapshots inlined as data URLs", icon: FileText },
+  { format: "html", label: "Web page", hint: ".html — self-contained, opens in any browser", icon: FileCode },
+];
+
+/** Snapshot size per highlighted answer */
+const SNAPSHOT_WIDTH = 960;
+const SNAPSHOT_HEIGHT = 540;
+
+interface TranscriptMenuProps {
+  messages: TranscriptMessage[];
+  title: string;
+  sessionId: string;
+  result: SegmentResult | null;
+  getViewer: () => MeshViewerHandle | null;
+  /** File name without extension */
+  baseName: string;
+}
+
+/** Download the chat as Markdown or HTML, with a viewer snapshot for every answer that highlighted segments */
+export default function TranscriptMenu({ messages, title, sessionId, result, getViewer, baseName }: TranscriptMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState(true);
+  const [busy, setBusy] = useState<TranscriptFormat | null>(null);
+  const [progress, setProgress] = useState("");
+  const [error, setError] = useState("");
+
+  /** One capture per highlighted answer — skipped (the ids are still listed) when the viewer isn't showing */
+  async function captureSnapshots(): Promise<Map<number, string>> {
+    const out = new Map<number, string>();
+    const viewer = getViewer();
+    if (!snapshots || !viewer) return out;
+    const targets = messages.flatMap((msg, i) => (msg.role === "assistant" && msg.highlightIds?.length ? [i] : []));
+    for (const [n, i] of targets.entries()) {
+      setProgress(`Snapshot ${n + 1} of ${targets.length}…`);
+      const blob = await viewer.captureImage({
+        width: SNAPSHOT_WIDTH,
+        height: SNAPSHOT_HEIGHT,
+        background: "viewer",
+        legend: true,
+        highlightIds: messages[i].highlightIds,
+      });
+      out.set(i, await blobToDataUrl(blob));
+    }
+    return out;
+  }
+
+  async function handleExport(format: TranscriptFormat) {
+    setBusy(format);
+    setError("");
+    try {
+      const transcript = { title, sessionId, exportedAt: new Date(), messages, result, snapshots: await captureSnapshots() };
+      if (format === "md") {
+        downloadBlob(new Blob([transcriptToMarkdown(transcript)], { type: "text/markdown" }), `${baseName}-chat.md`);
+      } else {
+        downloadBlob(new Blob([transcriptToHtml(transcript)], { type: "text/html" }), `${baseName}-chat.html`);
+      }
+      console.log(`[Transcript] ✅ ${format} — ${messages.length} messages, ${transcript.snapshots.size} snapshots`);
+      setOpen(false);
+    } catch (err) {
+      console.error("[Transcript] ❌", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+      setProgress("");
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        disabled={!messages.length}
+        className={`flex h-7 w-7 items-center justify-center rounded-md transition-colors disabled:opacity-30 ${
+          open ? "bg-black/8 text-black/60" : "text-black/35 hover:bg-black/5 hover:text-black/60"
+        }`}
+        title="Export transcript"
+      >
+        <FileDown size={14} strokeWidth={2} />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => !busy && setOpen(false)} />
+          <div className="absolute top-9 right-0 z-50 w-72 overflow-hidden rounded-xl border border-black/8 bg-white/95 py-1 shadow-lg backdrop-blur-md animate-fade-in">
+            <p className="px-3.5 pt-2 pb-1 text-[11px] font-bold tracking-wider text-black/30 uppercase">Export transcript</p>
+            {FORMATS.map(({ format, label, hint, icon: Icon }) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={!!busy}
+                className="flex w-full items-start gap-2.5 px-3.5 py-2 text-left transition-colors hover:bg-black/4 disabled:opacity-50"
+              >
+                {busy === format ? (
+                  <Loader2 size={14} className="mt-0.5 shrink-0 animate-spin text-black/40" />
+                ) : (
+                  <Icon size={14} className="mt-0.5 shrink-0 text-black/40" />
+                )}
+                <span>
+                  <span className="block text-[13px] font-semibold text-black/65">{label}</span>
+                  <span className="block text-[11px] text-black/35">{busy === format && progress ? progress : hint}</span>
+                </span>
+              </button>
+            ))}
+            <label className="flex cursor-pointer items-center gap-2 border-t border-black/6 px-3.5 py-2.5 text-[12px] font-semibold text-black/50">
+              <input
+                type="checkbox"
+                checked={snapshots}
+                onChange={(e) => setSnapshots(e.target.checked)}
+                disabled={!!busy}
+                className="accent-black/60"
+              />
+              Viewer snapshots for highlighted answers
+            </label>
+            {error && <p className="px-3.5 pb-2 text-[11px] font-medium text-red-500/75">{error}</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+import type { TurntableFormat } from "@/lib/viewerCapture";
+
 // ── Segment type → color (RGB 0–255) ──
 // These colors are shared: surface faces AND centerline use the SAME color per type
 export const SEGMENT_COLORS: Record<string, [number, number, number]> = {
@@ -10,10 +12,61 @@ export const SEGMENT_COLORS: Record<string, [number, number, number]> = {
 export const DEFAULT_MESH_COLOR: [number, number, number] = [200, 200, 210];
 export const HIGHLIGHT_COLOR: [number, number, number] = [255, 230, 80];
 
+/** Enough camera state to put another viewer at the same viewpoint */
+export interface CameraState {
+  position: [number, number, number];
+  focalPoint: [number, number, number];
+  viewUp: [number, number, number];
+  viewAngle: number;
+}
+
+export interface CaptureOptions {
+  /** Output size in pixels — the scene is re-rendered at this size, not scaled */
+  width: number;
+  height: number;
+  /** "viewer" keeps the on-screen background; RGB 0–255 paints a solid one */
+  background: "transparent" | "viewer" | [number, number, number];
+  /** Burn in a segment type → color legend */
+  legend: boolean;
+  /** Highlight these segments for the capture only, instead of what's highlighted on screen */
+  highlightIds?: number[];
+}
+
+export interface TurntableOptions {
+  format: TurntableFormat;
+  /** Length of one full turn */
+  seconds: number;
+  /** Output width in pixels; height follows the viewer's aspect ratio */
+  width: number;
+  legend: boolean;
+  /** 0–1, called every frame */
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
 export interface MeshViewerHandle {
   zoomIn: () => void;
   zoomOut: () => void;
   resetCamera: () => void;
+  /** Fit the camera to a segment's bounds — false if the segment isn't on the scene */
+  zoomToSegment: (segmentId: number) => boolean;
+  /** Camera direction of projection — null before the scene exists */
+  getViewDirection: () => [number, number, number] | null;
   toggleRotation: () => boolean;
   isRotating: () => boolean;
+  /** Segment ids picked in the viewer (click = replace, shift-click = toggle) */
+  getSelection: () => number[];
+  setSelection: (ids: number[]) => void;
+  /** Subscribe to selection changes — returns an unsubscribe function */
+  onSelectionChange: (listener: (ids: number[]) => void) => () => void;
+  /** Null before the scene exists */
+  getCamera: () => CameraState | null;
+  /** Move the camera without notifying `onCameraChange` listeners (so linked viewers don't echo) */
+  setCamera: (state: CameraState) => void;
+  /** Subscribe to camera moves — interaction, zoom buttons, auto-rotation */
+  onCameraChange: (listener: (state: CameraState) => void) => () => void;
+  /** PNG of the current view — rejects before the mesh is on screen */
+  captureImage: (options: CaptureOptions) => Promise<Blob>;
+  /** One full turn of the auto-rotation, recorded as WebM or GIF */
+  recordTurntable: (options: TurntableOptions) => Promise<Blob>;
 }
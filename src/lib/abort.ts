@@ -0,0 +1,9 @@
+/* ── Abort helpers shared by the worker client and the socket hook ── */
+
+export function abortError(message = "The operation was aborted."): Error {
+  return new DOMException(message, "AbortError");
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof Error && err.name === "AbortError";
+}
@@ -1,3 +1,20 @@
+import { MESH_BINARY_TYPE, decodeMeshBuffer, packSurfaceMesh, type PackedSurfaceMesh } from "./meshBuffer";
+import {
+  incompatibleError,
+  parseLoginResponse,
+  parseMeResponse,
+  parseUploadResponse,
+  parseSessionInfo,
+  parseSessionSearch,
+  parseSurfaceMesh,
+  parseChatHistory,
+  parseSegmentResult,
+  parseShareLink,
+  parseShareLinks,
+  parseSharedSession,
+} from "./schema";
+import type { CameraState } from "@/components/meshConstants";
+
 const BACKEND = process.env.NEXT_PUBLIC_BACKEND || "";
 const API_BASE = BACKEND;
 const WS_BASE = BACKEND.replace(/^http/, "ws");
@@ -12,41 +29,104 @@ const defaultHeaders: Record<string, string> = {
 export interface SessionInfo {
   session_id: string;
   created_at?: string;
+  /** User-chosen display name — defaults to the uploaded file name */
+  name?: string;
+  file_name?: string;
+  /** Mesh stats from `ingest` at upload time */
+  file_type?: string;
+  num_nodes?: number;
+  num_edges?: number;
+  /** Segments in the latest segmentation, once there is one */
+  segment_count?: number;
 }
 
-export async function login(email: string): Promise<{
+export interface LoginResponse {
   uid: string;
   email: string;
   is_new: boolean;
   sessions: (string | SessionInfo)[];
-}> {
+}
+
+export type MeResponse = Omit<LoginResponse, "is_new">;
+
+export async function login(email: string): Promise<LoginResponse> {
   const res = await fetch(`${API_BASE}/auth/login`, { 
     method: "POST",
     headers: { ...defaultHeaders, "Content-Type": "application/json" },
     body: JSON.stringify({ email }),
   });
   if (!res.ok) throw new Error("Login failed");
-  return res.json();
+  return parseLoginResponse(await res.json());
 }
 
-/** Extract session_id string from whatever the backend returns */
-export function normalizeSessionId(s: string | SessionInfo | Record<string, unknown>): string {
-  if (typeof s === "string") return s;
-  if (s && typeof s === "object" && "session_id" in s && typeof s.session_id === "string") return s.session_id;
-  return String(s);
+/** Older backends list sessions as bare ids — lift them to SessionInfo */
+export function normalizeSession(s: string | SessionInfo): SessionInfo {
+  return typeof s === "string" ? { session_id: s } : s;
 }
 
-export async function getMe(uid: string): Promise<{
-  uid: string;
-  email: string;
-  sessions: (string | SessionInfo)[];
-}> {
+/** What the history shows for a session */
+export function sessionDisplayName(s: SessionInfo): string {
+  return s.name || s.file_name || `Interaction ${s.session_id.slice(0, 8)}`;
+}
+
+export async function getMe(uid: string): Promise<MeResponse> {
   const res = await fetch(`${API_BASE}/auth/me?uid=${encodeURIComponent(uid)}`, {
     headers: defaultHeaders,
   });
   if (res.status === 404 || res.status === 401) throw new Error("Invalid session");
   if (!res.ok) throw new Error("Failed to verify session");
-  return res.json();
+  return parseMeResponse(await res.json());
+}
+
+/* ── Sessions ── */
+
+/**
+ * Rename a session.
+ * Backend should expose: PATCH /sessions/{uid}/{session_id} with { name }
+ * Returns the updated SessionInfo.
+ */
+export async function renameSession(uid: string, sessionId: string, name: string): Promise<SessionInfo> {
+  const res = await fetch(`${API_BASE}/sessions/${uid}/${sessionId}`, {
+    method: "PATCH",
+    headers: { ...defaultHeaders, "Content-Type": "application/json" },
+    body: JSON.stringify({ name }),
+  });
+  if (!res.ok) throw new Error("Failed to rename session");
+  return parseSessionInfo(await res.json());
+}
+
+/**
+ * Delete a session with its mesh, segments and chat.
+ * Backend should expose: DELETE /sessions/{uid}/{session_id}
+ */
+export async function deleteSession(uid: string, sessionId: string): Promise<void> {
+  const res = await fetch(`${API_BASE}/sessions/${uid}/${sessionId}`, {
+    method: "DELETE",
+    headers: defaultHeaders,
+  });
+  if (res.status === 404) return; // already gone
+  if (!res.ok) throw new Error("Failed to delete session");
+}
+
+export interface SessionSearchHit {
+  session_id: string;
+  /** Matching excerpt, e.g. from the chat */
+  snippet?: string;
+}
+
+/**
+ * Full-text search over the user's sessions (name, file name, chat).
+ * Backend should expose: GET /sessions/{uid}/search?q=...
+ * Returns null when the backend has no search endpoint — callers fall back to searching client-side.
+ */
+export async function searchSessions(uid: string, query: string, signal?: AbortSignal): Promise<SessionSearchHit[] | null> {
+  const res = await fetch(`${API_BASE}/sessions/${uid}/search?q=${encodeURIComponent(query)}`, {
+    headers: defaultHeaders,
+    signal,
+  });
+  if (res.status === 404 || res.status === 405 || res.status === 501) return null;
+  if (!res.ok) throw new Error("Search failed");
+  return parseSessionSearch(await res.json());
 }
 
 /* ── Upload ── */
@@ -75,7 +155,7 @@ export async function uploadMesh(uid: string, file: File): Promise<UploadRespons
     body: formData,
   });
   if (!res.ok) throw new Error("Upload failed");
-  return res.json();
+  return parseUploadResponse(await res.json());
 }
 
 /* ── Surface mesh ── */
@@ -85,15 +165,32 @@ export interface SurfaceMesh {
   faces: number[][];     // [[v0,v1,v2], ...] — triangle indices into vertices
 }
 
-export async function getSurfaceMesh(uid: string, sessionId: string): Promise<SurfaceMesh> {
-  const url = `${API_BASE}/mesh/${uid}/${sessionId}`;
-  const res = await fetch(url, { headers: defaultHeaders });
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`Failed to load surface mesh (${res.status})`);
+/**
+ * Fetch the surface mesh as typed arrays.
+ * Asks for the binary payload (see meshBuffer.ts) and falls back to packing
+ * the JSON shape when the backend answers with JSON.
+ */
+export function getPackedSurfaceMesh(uid: string, sessionId: string, signal?: AbortSignal): Promise<PackedSurfaceMesh> {
+  return fetchPackedMesh(`${API_BASE}/mesh/${uid}/${sessionId}`, "GET /mesh", signal);
+}
+
+async function fetchPackedMesh(url: string, source: string, signal?: AbortSignal): Promise<PackedSurfaceMesh> {
+  const res = await fetch(url, {
+    headers: { ...defaultHeaders, Accept: `${MESH_BINARY_TYPE}, application/json;q=0.9` },
+    signal,
+  });
+  if (!res.ok) throw new Error(`Failed to load surface mesh (${res.status})`);
+
+  const contentType = res.headers.get("content-type") || "";
+  if (contentType.startsWith(MESH_BINARY_TYPE)) {
+    const buffer = await res.arrayBuffer();
+    try {
+      return decodeMeshBuffer(buffer);
+    } catch (err) {
+      throw incompatibleError(source, err instanceof Error ? err.message : String(err));
+    }
   }
-  const data = await res.json();
-  return data;
+  return packSurfaceMesh(parseSurfaceMesh(await res.json(), source));
 }
 
 /* ── Chat history ── */
@@ -113,7 +210,7 @@ export async function getChatHistory(uid: string, sessionId: string): Promise<Ch
   const res = await fetch(`${API_BASE}/chat/${uid}/${sessionId}`, { headers: defaultHeaders });
   if (res.status === 404) return []; // no chat yet
   if (!res.ok) throw new Error("Failed to load chat history");
-  return res.json();
+  return parseChatHistory(await res.json());
 }
 
 /* ── Segments (pre-computed) ── */
@@ -127,7 +224,96 @@ export async function getSegments(uid: string, sessionId: string): Promise<Segme
   const res = await fetch(`${API_BASE}/segments/${uid}/${sessionId}`, { headers: defaultHeaders });
   if (res.status === 404) return null; // not yet segmented
   if (!res.ok) throw new Error("Failed to load segments");
-  return res.json();
+  return parseSegmentResult(await res.json());
+}
+
+/* ── Share links ── */
+
+export interface ShareLink {
+  token: string;
+  session_id: string;
+  created_at?: string;
+}
+
+/** The view a share link opens on — captured when the link is created */
+export interface ShareView {
+  highlight_ids: number[];
+  camera?: CameraState;
+}
+
+/** Everything a read-only share page shows, except the mesh (see getSharedSurfaceMesh) */
+export interface SharedSession extends ShareView {
+  session: SessionInfo;
+  segments?: SegmentResult;
+  chat: ChatHistoryMessage[];
+}
+
+/**
+ * Create a read-only link to a session.
+ * Backend should expose: POST /share/{uid}/{session_id} with ShareView
+ * Returns the new ShareLink.
+ */
+export async function createShareLink(uid: string, sessionId: string, view: ShareView): Promise<ShareLink> {
+  const res = await fetch(`${API_BASE}/share/${uid}/${sessionId}`, {
+    method: "POST",
+    headers: { ...defaultHeaders, "Content-Type": "application/json" },
+    body: JSON.stringify(view),
+  });
+  if (!res.ok) throw new Error("Failed to create share link");
+  return parseShareLink(await res.json());
+}
+
+/**
+ * Links created for a session that haven't been revoked.
+ * Backend should expose: GET /share/{uid}/{session_id}
+ */
+export async function listShareLinks(uid: string, sessionId: string): Promise<ShareLink[]> {
+  const res = await fetch(`${API_BASE}/share/${uid}/${sessionId}`, { headers: defaultHeaders });
+  if (res.status === 404) return []; // none yet
+  if (!res.ok) throw new Error("Failed to load share links");
+  return parseShareLinks(await res.json());
+}
+
+/**
+ * Revoke a share link — its page stops loading immediately.
+ * Backend should expose: DELETE /share/{uid}/{session_id}/{token}
+ */
+export async function revokeShareLink(uid: string, sessionId: string, token: string): Promise<void> {
+  const res = await fetch(`${API_BASE}/share/${uid}/${sessionId}/${token}`, {
+    method: "DELETE",
+    headers: defaultHeaders,
+  });
+  if (res.status === 404) return; // already revoked
+  if (!res.ok) throw new Error("Failed to revoke share link");
+}
+
+/**
+ * Load a shared session by token — no uid involved.
+ * Backend should expose: GET /shared/{token}
+ * Returns null for unknown or revoked tokens.
+ */
+export async function getSharedSession(token: string): Promise<SharedSession | null> {
+  const res = await fetch(`${API_BASE}/shared/${encodeURIComponent(token)}`, { headers: defaultHeaders });
+  if (res.status === 404 || res.status === 410) return null;
+  if (!res.ok) throw new Error("Failed to load shared session");
+  return parseSharedSession(await res.json());
+}
+
+/**
+ * The shared session's surface mesh, binary or JSON like getPackedSurfaceMesh.
+ * Backend should expose: GET /shared/{token}/mesh
+ */
+export function getSharedSurfaceMesh(token: string, signal?: AbortSignal): Promise<PackedSurfaceMesh> {
+  return fetchPackedMesh(`${API_BASE}/shared/${encodeURIComponent(token)}/mesh`, "GET /shared/mesh", signal);
+}
+
+/** Where a viewer's mesh comes from — one of the user's sessions, or a share link */
+export type MeshSource = { uid: string; sessionId: string } | { shareToken: string };
+
+export function getMeshFrom(source: MeshSource, signal?: AbortSignal): Promise<PackedSurfaceMesh> {
+  return "shareToken" in source
+    ? getSharedSurfaceMesh(source.shareToken, signal)
+    : getPackedSurfaceMesh(source.uid, source.sessionId, signal);
 }
 
 /* ── WebSocket ── */
@@ -138,11 +324,36 @@ export function getWsUrl(uid: string, sessionId: string): string {
 
 /* ── WS Message Types ── */
 
+/** Messages answering a request echo its `request_id`; older servers may omit it */
 export type WsIncoming =
   | { type: "connected"; session: { session_id: string } }
-  | { type: "progress"; step: string; detail: Record<string, unknown>; explanation?: string }
-  | { type: "result"; data: SegmentResult | QueryResult }
-  | { type: "error"; message: string };
+  | { type: "progress"; request_id?: string; step: string; detail: Record<string, unknown>; explanation?: string }
+  /** `data` is a SegmentResult or QueryResult depending on the request — validated once routed */
+  | { type: "result"; request_id?: string; data: Record<string, unknown> }
+  /** Incremental answer text — concatenated in order, superseded by the final `result` */
+  | { type: "answer_chunk"; request_id?: string; delta: string }
+  | { type: "tool_call_start"; request_id?: string; call_id: string; tool: string; params: Record<string, unknown> }
+  | { type: "tool_call_end"; request_id?: string; call_id: string; result?: unknown; error?: string }
+  | { type: "error"; request_id?: string; message: string };
+
+/** What the user is looking at when asking — lets the assistant resolve "these two bends" */
+export interface QueryContext {
+  /** Segments picked in the viewer or inspector */
+  selected_ids?: number[];
+  /** Segments highlighted by the previous answer */
+  highlighted_ids?: number[];
+  /** Segment types left visible by the inspector's type filter */
+  visible_types?: string[];
+  /** Camera direction of projection, world space unit vector */
+  view_direction?: [number, number, number];
+}
+
+/** Requests carry a client-generated `request_id` — echoed on replies, and used to dedupe replays after a reconnect */
+export type WsOutgoing =
+  | { type: "upload_and_segment"; request_id: string; target_step: number; downsample_nodes: number; embed: boolean }
+  | { type: "query"; request_id: string; query: string; context?: QueryContext }
+  /** Stop a running request — the server may still send a few of its messages; clients drop them */
+  | { type: "cancel"; request_id: string };
 
 export interface Segment {
   segment_id: number;
@@ -169,10 +380,17 @@ export interface SegmentResult {
   };
 }
 
+/** One tool the assistant ran while answering */
+export interface ToolCall {
+  tool: string;
+  params: Record<string, unknown>;
+  result: unknown;
+}
+
 export interface QueryResult {
   query: string;
   answer: string;
-  tool_calls: { tool: string; params: Record<string, unknown>; result: unknown }[];
+  tool_calls: ToolCall[];
   highlight_ids: number[];
   mode: string;
 }
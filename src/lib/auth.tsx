@@ -9,15 +9,27 @@ import {
   type ReactNode,
 } from "react";
 import { useRouter } from "next/navigation";
-import { getMe, normalizeSessionId } from "./api";
+import {
+  getMe,
+  normalizeSession,
+  renameSession as renameSessionRequest,
+  deleteSession as deleteSessionRequest,
+  type SessionInfo,
+} from "./api";
+import { sortSessions } from "./sessionHistory";
 
 interface AuthState {
   uid: string | null;
   email: string | null;
-  sessions: string[];
+  /** Newest first */
+  sessions: SessionInfo[];
   loading: boolean;
   logout: () => void;
-  addSession: (sid: string) => void;
+  addSession: (session: SessionInfo) => void;
+  /** Record metadata learned client-side, e.g. the segment count after a run */
+  updateSession: (sid: string, patch: Omit<SessionInfo, "session_id">) => void;
+  renameSession: (sid: string, name: string) => Promise<void>;
+  deleteSession: (sid: string) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthState>({
@@ -27,28 +39,103 @@ const AuthContext = createContext<AuthState>({
   loading: true,
   logout: () => {},
   addSession: () => {},
+  updateSession: () => {},
+  renameSession: async () => {},
+  deleteSession: async () => {},
 });
 
+type StoredMeta = Record<string, Omit<SessionInfo, "session_id">>;
+
+/**
+ * Metadata known from the upload (file name, format, ingest stats) is kept in localStorage,
+ * for backends that only list session ids. Older builds stored just the format.
+ */
+function readStoredMeta(): StoredMeta {
+  try {
+    const parsed = JSON.parse(localStorage.getItem("sessionMeta") || "{}");
+    const meta: StoredMeta = parsed && typeof parsed === "object" ? parsed : {};
+    const formats = JSON.parse(localStorage.getItem("sessionFormats") || "{}");
+    if (formats && typeof formats === "object") {
+      for (const [sid, format] of Object.entries(formats)) {
+        if (typeof format === "string") meta[sid] = { file_type: format, ...meta[sid] };
+      }
+    }
+    return meta;
+  } catch {
+    return {};
+  }
+}
+
+function writeStoredMeta(update: (meta: StoredMeta) => StoredMeta) {
+  try {
+    localStorage.setItem("sessionMeta", JSON.stringify(update(readStoredMeta())));
+    localStorage.removeItem("sessionFormats");
+  } catch (err) {
+    console.warn("[Auth] could not persist session metadata:", err);
+  }
+}
+
+/** Backend fields win; stored ones fill the gaps */
+function withStoredMeta(sessions: SessionInfo[]): SessionInfo[] {
+  const meta = readStoredMeta();
+  return sessions.map((s) => {
+    const known = Object.fromEntries(Object.entries(s).filter(([, v]) => v !== undefined));
+    return { ...meta[s.session_id], ...known } as SessionInfo;
+  });
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const router = useRouter();
   const [uid, setUid] = useState<string | null>(null);
   const [email, setEmail] = useState<string | null>(null);
-  const [sessions, setSessions] = useState<string[]>([]);
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
   const [loading, setLoading] = useState(true);
 
   const logout = useCallback(() => {
     localStorage.removeItem("uid");
     localStorage.removeItem("email");
+    localStorage.removeItem("sessionFormats");
+    localStorage.removeItem("sessionMeta");
     setUid(null);
     setEmail(null);
     setSessions([]);
     router.push("/");
   }, [router]);
 
-  const addSession = useCallback((sid: string) => {
-    setSessions((prev) => (prev.includes(sid) ? prev : [sid, ...prev]));
+  const addSession = useCallback((session: SessionInfo) => {
+    const { session_id, ...meta } = session;
+    writeStoredMeta((stored) => ({ ...stored, [session_id]: meta }));
+    setSessions((prev) => [session, ...prev.filter((s) => s.session_id !== session_id)]);
+  }, []);
+
+  const updateSession = useCallback((sid: string, patch: Omit<SessionInfo, "session_id">) => {
+    writeStoredMeta((stored) => ({ ...stored, [sid]: { ...stored[sid], ...patch } }));
+    setSessions((prev) => prev.map((s) => (s.session_id === sid ? { ...s, ...patch } : s)));
   }, []);
 
+  const renameSession = useCallback(
+    async (sid: string, name: string) => {
+      if (!uid) return;
+      const updated = await renameSessionRequest(uid, sid, name);
+      setSessions((prev) => prev.map((s) => (s.session_id === sid ? { ...s, ...updated, name: updated.name ?? name } : s)));
+    },
+    [uid],
+  );
+
+  const deleteSession = useCallback(
+    async (sid: string) => {
+      if (!uid) return;
+      await deleteSessionRequest(uid, sid);
+      writeStoredMeta((stored) => {
+        const next = { ...stored };
+        delete next[sid];
+        return next;
+      });
+      setSessions((prev) => prev.filter((s) => s.session_id !== sid));
+    },
+    [uid],
+  );
+
   useEffect(() => {
     const storedUid = localStorage.getItem("uid");
     const storedEmail = localStorage.getItem("email");
@@ -62,7 +149,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       .then((data) => {
         setUid(data.uid);
         setEmail(data.email);
-        setSessions((data.sessions || []).map(normalizeSessionId));
+        setSessions(sortSessions(withStoredMeta((data.sessions || []).map(normalizeSession)), "newest"));
       })
       .catch((err) => {
         console.warn("[Auth] getMe failed:", err.message);
@@ -80,7 +167,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, [router]);
 
   return (
-    <AuthContext.Provider value={{ uid, email, sessions, loading, logout, addSession }}>
+    <AuthContext.Provider value={{ uid, email, sessions, loading, logout, addSession, updateSession, renameSession, deleteSession }}>
       {children}
     </AuthContext.Provider>
   );
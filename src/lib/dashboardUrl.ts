@@ -0,0 +1,83 @@
+import type { CameraState } from "@/components/meshConstants";
+
+/* ── Dashboard deep links — /dashboard?session=…&hl=…&hide=…&opacity=…&cam=… ── */
+
+export interface DashboardView {
+  session: string | null;
+  highlightIds: number[];
+  /** Segment types hidden by the inspector's type filter */
+  hiddenTypes: string[];
+  opacity: number | null;
+  camera: CameraState | null;
+}
+
+/** Significant digits for camera numbers — plenty for a viewpoint, short enough for a URL */
+const CAMERA_PRECISION = 5;
+
+function list(value: string | null): string[] {
+  return value ? value.split(",").filter(Boolean) : [];
+}
+
+function encodeCamera(cam: CameraState): string {
+  return [...cam.position, ...cam.focalPoint, ...cam.viewUp, cam.viewAngle]
+    .map((v) => String(Number(v.toPrecision(CAMERA_PRECISION))))
+    .join(",");
+}
+
+function decodeCamera(value: string | null): CameraState | null {
+  const n = list(value).map(Number);
+  if (n.length !== 10 || !n.every(Number.isFinite)) return null;
+  return { position: [n[0], n[1], n[2]], focalPoint: [n[3], n[4], n[5]], viewUp: [n[6], n[7], n[8]], viewAngle: n[9] };
+}
+
+/** Malformed parameters are dropped rather than failing the whole link */
+export function readDashboardUrl(search: string): DashboardView {
+  const params = new URLSearchParams(search);
+  const opacity = Number(params.get("opacity"));
+  return {
+    session: params.get("session") || null,
+    highlightIds: list(params.get("hl")).map(Number).filter(Number.isInteger),
+    hiddenTypes: list(params.get("hide")),
+    opacity: params.has("opacity") && Number.isFinite(opacity) ? Math.min(1, Math.max(0.1, opacity)) : null,
+    camera: decodeCamera(params.get("cam")),
+  };
+}
+
+function toSearch(params: URLSearchParams): string {
+  // Lists read better with bare commas, which are safe in a query string
+  const text = params.toString().replace(/%2C/gi, ",");
+  return text ? `?${text}` : "";
+}
+
+/**
+ * Mirror the workspace into the URL. Opening a session adds a history entry, so back/forward
+ * move between sessions; anything else (closing one included) replaces the current entry.
+ * The camera is left to writeDashboardCamera and dropped when the session changes.
+ */
+export function writeDashboardUrl(view: Omit<DashboardView, "camera">) {
+  const current = new URLSearchParams(window.location.search);
+  const sameSession = (current.get("session") || null) === view.session;
+  const params = new URLSearchParams();
+  if (view.session) {
+    params.set("session", view.session);
+    if (view.highlightIds.length) params.set("hl", view.highlightIds.join(","));
+    if (view.hiddenTypes.length) params.set("hide", view.hiddenTypes.join(","));
+    if (view.opacity !== null) params.set("opacity", String(Math.round(view.opacity * 100) / 100));
+    const cam = current.get("cam");
+    if (sameSession && cam) params.set("cam", cam);
+  }
+  const search = toSearch(params);
+  if (search === window.location.search) return;
+  const url = `${window.location.pathname}${search}`;
+  if (sameSession || !view.session) window.history.replaceState(null, "", url);
+  else window.history.pushState(null, "", url);
+}
+
+/** Update just the camera pose of the current entry — only while a session is shown */
+export function writeDashboardCamera(camera: CameraState) {
+  const params = new URLSearchParams(window.location.search);
+  if (!params.has("session")) return;
+  params.set("cam", encodeCamera(camera));
+  const search = toSearch(params);
+  if (search !== window.location.search) window.history.replaceState(null, "", `${window.location.pathname}${search}`);
+}
@@ -0,0 +1,162 @@
+import type { Segment, SegmentResult } from "./api";
+import type { PackedSurfaceMesh } from "./meshBuffer";
+import { buildCenterline, buildFaceSegmentIds, toSceneSegments } from "./sceneGeometry";
+
+/* ── Exporting segmentation results — CSV table, raw JSON, VTK PolyData for ParaView ── */
+
+/* ── CSV ── */
+
+const CSV_COLUMNS: { header: string; value: (seg: Segment) => string | number | undefined }[] = [
+  { header: "segment_id", value: (s) => s.segment_id },
+  { header: "type", value: (s) => s.type },
+  { header: "length", value: (s) => s.length },
+  { header: "mean_curvature", value: (s) => s.mean_curvature },
+  { header: "arc_angle_deg", value: (s) => s.arc_angle_deg },
+  { header: "corner_angle_deg", value: (s) => s.corner_angle_deg },
+  { header: "radius_est", value: (s) => s.radius_est },
+  { header: "node_count", value: (s) => s.node_count },
+];
+
+function csvField(value: string | number | undefined): string {
+  if (value === undefined || (typeof value === "number" && !Number.isFinite(value))) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per segment; missing values (e.g. no radius estimate) are left empty */
+export function segmentsToCsv(result: SegmentResult): string {
+  const rows = [CSV_COLUMNS.map((c) => c.header).join(",")];
+  for (const seg of result.segments) rows.push(CSV_COLUMNS.map((c) => csvField(c.value(seg))).join(","));
+  return rows.join("\r\n") + "\r\n";
+}
+
+/* ── JSON ── */
+
+export function resultToJson(result: SegmentResult): string {
+  return JSON.stringify(result, null, 2);
+}
+
+/* ── VTP (VTK XML PolyData, ASCII) ── */
+
+/** Values per text line — keeps lines short without a string per number */
+const VALUES_PER_LINE = 12;
+
+function numbersText(values: ArrayLike<number>, digits?: number): string {
+  const lines: string[] = [];
+  for (let i = 0; i < values.length; i += VALUES_PER_LINE) {
+    const end = Math.min(values.length, i + VALUES_PER_LINE);
+    const line: string[] = [];
+    for (let j = i; j < end; j++) line.push(digits === undefined ? String(values[j]) : String(Number(values[j].toPrecision(digits))));
+    lines.push(line.join(" "));
+  }
+  return lines.join("\n");
+}
+
+/** ASCII string arrays are written as character codes, each string terminated by 0 */
+function stringsText(values: string[]): string {
+  const encoder = new TextEncoder();
+  return values.map((v) => [...encoder.encode(v), 0].join(" ")).join("\n");
+}
+
+function dataArray(type: string, name: string, body: string, extra = ""): string {
+  return `<DataArray type="${type}" Name="${name}"${extra} format="ascii">\n${body}\n</DataArray>\n`;
+}
+
+/**
+ * Surface mesh + centerline polylines in one PolyData piece.
+ * Cell data (lines first, then triangles — VTK's cell order):
+ *   SegmentId      segment_id, -1 for faces no segment claims
+ *   SegmentTypeId  index into the SegmentTypes field array, -1 likewise — colorable in ParaView
+ *   SegmentType    type name
+ *   Centerline     1 for centerline cells, 0 for surface faces
+ */
+export function buildVtp(mesh: PackedSurfaceMesh, result: SegmentResult): Blob {
+  const scene = toSceneSegments(result.segments);
+  const typeNames = [...new Set(result.segments.map((s) => s.type))].sort();
+  const typeIndex = new Map(typeNames.map((t, i) => [t, i]));
+  const typeOf = new Map(result.segments.map((s) => [s.segment_id, s.type]));
+
+  // Centerline points follow the surface points
+  const centerline = buildCenterline(scene, []);
+  const clPointCount = centerline ? centerline.points.length / 3 : 0;
+  const lineConnectivity: number[] = [];
+  const lineOffsets: number[] = [];
+  if (centerline) {
+    for (let i = 0; i < centerline.lines.length; ) {
+      const n = centerline.lines[i++];
+      for (let k = 0; k < n; k++) lineConnectivity.push(centerline.lines[i++] + mesh.numVertices);
+      lineOffsets.push(lineConnectivity.length);
+    }
+  }
+  const numLines = lineOffsets.length;
+
+  const faceSegmentIds = buildFaceSegmentIds(mesh.numFaces, scene);
+  const polyOffsets = new Uint32Array(mesh.numFaces);
+  for (let i = 0; i < mesh.numFaces; i++) polyOffsets[i] = (i + 1) * 3;
+
+  const cellSegmentIds = new Int32Array(numLines + mesh.numFaces);
+  cellSegmentIds.set(centerline?.cellSegmentIds ?? [], 0);
+  cellSegmentIds.set(faceSegmentIds, numLines);
+  const cellTypeIds = cellSegmentIds.map((id) => {
+    const type = typeOf.get(id);
+    return type === undefined ? -1 : typeIndex.get(type)!;
+  });
+  const cellTypes = Array.from(cellSegmentIds, (id) => typeOf.get(id) ?? "");
+  const cellIsCenterline = new Uint8Array(numLines + mesh.numFaces).fill(1, 0, numLines);
+
+  const points = new Float32Array(mesh.points.length + clPointCount * 3);
+  points.set(mesh.points, 0);
+  if (centerline) points.set(centerline.points, mesh.points.length);
+
+  return new Blob(
+    [
+      '<?xml version="1.0"?>\n',
+      '<VTKFile type="PolyData" version="1.0" byte_order="LittleEndian">\n',
+      "<PolyData>\n",
+      "<FieldData>\n",
+      dataArray("String", "SegmentTypes", stringsText(typeNames), ` NumberOfTuples="${typeNames.length}"`),
+      "</FieldData>\n",
+      `<Piece NumberOfPoints="${points.length / 3}" NumberOfVerts="0" NumberOfLines="${numLines}" NumberOfStrips="0" NumberOfPolys="${mesh.numFaces}">\n`,
+      "<Points>\n",
+      dataArray("Float32", "Points", numbersText(points, 7), ' NumberOfComponents="3"'),
+      "</Points>\n",
+      '<CellData Scalars="SegmentId">\n',
+      dataArray("Int32", "SegmentId", numbersText(cellSegmentIds)),
+      dataArray("Int32", "SegmentTypeId", numbersText(cellTypeIds)),
+      dataArray("String", "SegmentType", stringsText(cellTypes)),
+      dataArray("UInt8", "Centerline", numbersText(cellIsCenterline)),
+      "</CellData>\n",
+      "<Lines>\n",
+      dataArray("Int32", "connectivity", numbersText(lineConnectivity)),
+      dataArray("Int32", "offsets", numbersText(lineOffsets)),
+      "</Lines>\n",
+      "<Polys>\n",
+      dataArray("Int32", "connectivity", numbersText(mesh.faces)),
+      dataArray("Int32", "offsets", numbersText(polyOffsets)),
+      "</Polys>\n",
+      "</Piece>\n",
+      "</PolyData>\n",
+      "</VTKFile>\n",
+    ],
+    { type: "application/xml" },
+  );
+}
+
+/* ── Download ── */
+
+/** Strip the mesh extension and anything unsafe in a file name */
+export function exportBaseName(name: string): string {
+  return name.replace(/\.[a-z0-9]{1,5}$/i, "").replace(/[^\w.-]+/g, "_").replace(/^_+|_+$/g, "") || "segmentation";
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,156 @@
+/* ── Animated GIF encoder — fixed palette, LZW, looping ── */
+
+/**
+ * Palette: a 6×6×6 color cube (216) plus a 40-step gray ramp.
+ * Shaded meshes are mostly near-gray, so the ramp keeps them smooth
+ * while the cube covers the segment colors.
+ */
+const CUBE_LEVELS = 6;
+const GRAY_LEVELS = 40;
+/** Channels this close together count as gray */
+const GRAY_TOLERANCE = 12;
+
+function buildPalette(): Uint8Array<ArrayBuffer> {
+  const palette = new Uint8Array(256 * 3);
+  let i = 0;
+  for (let r = 0; r < CUBE_LEVELS; r++) {
+    for (let g = 0; g < CUBE_LEVELS; g++) {
+      for (let b = 0; b < CUBE_LEVELS; b++) {
+        palette[i++] = r * 51;
+        palette[i++] = g * 51;
+        palette[i++] = b * 51;
+      }
+    }
+  }
+  for (let k = 0; k < GRAY_LEVELS; k++) {
+    const v = Math.round((k / (GRAY_LEVELS - 1)) * 255);
+    palette[i++] = v;
+    palette[i++] = v;
+    palette[i++] = v;
+  }
+  return palette;
+}
+
+const PALETTE = buildPalette();
+
+function paletteIndex(r: number, g: number, b: number): number {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  if (max - min <= GRAY_TOLERANCE) {
+    return CUBE_LEVELS ** 3 + Math.round((((r + g + b) / 3) / 255) * (GRAY_LEVELS - 1));
+  }
+  return Math.round(r / 51) * 36 + Math.round(g / 51) * 6 + Math.round(b / 51);
+}
+
+/* ── LZW ── */
+
+const MIN_CODE_SIZE = 8;
+const MAX_CODES = 4096;
+
+/** GIF-flavoured LZW, packed into length-prefixed sub-blocks */
+function lzwEncode(indices: Uint8Array): Uint8Array<ArrayBuffer> {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const eoiCode = clearCode + 1;
+  // prefix code × 256 + next index → code; 0 = absent (real codes start past eoiCode)
+  const table = new Uint16Array(MAX_CODES * 256);
+
+  const bytes: number[] = [];
+  let cur = 0;
+  let curBits = 0;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = eoiCode + 1;
+
+  const emit = (code: number) => {
+    cur |= code << curBits;
+    curBits += codeSize;
+    while (curBits >= 8) {
+      bytes.push(cur & 0xff);
+      cur >>>= 8;
+      curBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = prefix * 256 + k;
+    const code = table[key];
+    if (code) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODES) {
+      emit(clearCode);
+      table.fill(0);
+      nextCode = eoiCode + 1;
+      codeSize = MIN_CODE_SIZE + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table[key] = nextCode++;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(eoiCode);
+  if (curBits > 0) bytes.push(cur & 0xff);
+
+  const out = new Uint8Array(bytes.length + Math.ceil(bytes.length / 255) + 1);
+  let o = 0;
+  for (let i = 0; i < bytes.length; i += 255) {
+    const n = Math.min(255, bytes.length - i);
+    out[o++] = n;
+    for (let j = 0; j < n; j++) out[o++] = bytes[i + j];
+  }
+  out[o] = 0; // block terminator
+  return out;
+}
+
+/* ── Encoder ── */
+
+function u16(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff];
+}
+
+export class GifEncoder {
+  private readonly parts: Uint8Array<ArrayBuffer>[] = [];
+
+  constructor(private readonly width: number, private readonly height: number) {
+    const header = [
+      ..."GIF89a".split("").map((c) => c.charCodeAt(0)),
+      ...u16(width),
+      ...u16(height),
+      0xf7, // global color table, 8 bits per channel, 256 entries
+      0, // background color index
+      0, // pixel aspect ratio
+    ];
+    this.parts.push(new Uint8Array(header), PALETTE.slice());
+    // NETSCAPE2.0 — loop forever
+    this.parts.push(
+      new Uint8Array([0x21, 0xff, 0x0b, ..."NETSCAPE2.0".split("").map((c) => c.charCodeAt(0)), 0x03, 0x01, 0, 0, 0]),
+    );
+  }
+
+  /** Add an RGBA frame (alpha is ignored — composite onto a background first) shown for `delayMs` */
+  addFrame(rgba: Uint8ClampedArray, delayMs: number) {
+    const pixels = this.width * this.height;
+    if (rgba.length !== pixels * 4) throw new Error(`GIF frame is ${rgba.length / 4} pixels, expected ${pixels}`);
+    const indices = new Uint8Array(pixels);
+    for (let p = 0, i = 0; p < pixels; p++, i += 4) indices[p] = paletteIndex(rgba[i], rgba[i + 1], rgba[i + 2]);
+
+    const delay = Math.max(2, Math.round(delayMs / 10)); // hundredths; browsers clamp smaller delays
+    this.parts.push(
+      // Graphic control: keep the previous frame (disposal 1), no transparency
+      new Uint8Array([0x21, 0xf9, 0x04, 0x04, ...u16(delay), 0, 0]),
+      // Image descriptor: full frame, no local color table
+      new Uint8Array([0x2c, 0, 0, 0, 0, ...u16(this.width), ...u16(this.height), 0, MIN_CODE_SIZE]),
+      lzwEncode(indices),
+    );
+  }
+
+  finish(): Blob {
+    this.parts.push(new Uint8Array([0x3b]));
+    return new Blob(this.parts, { type: "image/gif" });
+  }
+}
@@ -0,0 +1,106 @@
+import type { SurfaceMesh } from "./api";
+
+/* ── Packed surface mesh — typed arrays ready for vtkPolyData ── */
+
+/**
+ * Binary wire format (little-endian):
+ *   0  char[4]  magic "SMSH"
+ *   4  uint32   version (1)
+ *   8  uint32   numVertices
+ *  12  uint32   numFaces
+ *  16  float32  vertices[numVertices * 3]
+ *  ..  uint32   faces[numFaces * 3]   — triangle vertex indices
+ */
+export const MESH_BINARY_TYPE = "application/vnd.shape.mesh";
+
+const MAGIC = "SMSH";
+const VERSION = 1;
+const HEADER_BYTES = 16;
+
+export interface PackedSurfaceMesh {
+  /** Flat xyz — 3 floats per vertex */
+  points: Float32Array;
+  /** Flat triangle indices — 3 per face */
+  faces: Uint32Array;
+  numVertices: number;
+  numFaces: number;
+}
+
+function checkIndices(faces: Uint32Array, numVertices: number) {
+  for (let i = 0; i < faces.length; i++) {
+    if (faces[i] >= numVertices) {
+      throw new Error(`Mesh payload face ${Math.floor(i / 3)} references vertex ${faces[i]} of ${numVertices}`);
+    }
+  }
+}
+
+/** Decode a binary mesh payload without copying vertex/face data */
+export function decodeMeshBuffer(buffer: ArrayBuffer): PackedSurfaceMesh {
+  if (buffer.byteLength < HEADER_BYTES) throw new Error("Mesh payload too short");
+  const header = new DataView(buffer, 0, HEADER_BYTES);
+  const magic = String.fromCharCode(header.getUint8(0), header.getUint8(1), header.getUint8(2), header.getUint8(3));
+  if (magic !== MAGIC) throw new Error("Mesh payload has an unknown signature");
+  const version = header.getUint32(4, true);
+  if (version !== VERSION) throw new Error(`Unsupported mesh payload version ${version}`);
+
+  const numVertices = header.getUint32(8, true);
+  const numFaces = header.getUint32(12, true);
+  const expected = HEADER_BYTES + numVertices * 12 + numFaces * 12;
+  if (buffer.byteLength !== expected) {
+    throw new Error(`Mesh payload is ${buffer.byteLength} bytes, expected ${expected}`);
+  }
+
+  const points = new Float32Array(buffer, HEADER_BYTES, numVertices * 3);
+  const faces = new Uint32Array(buffer, HEADER_BYTES + numVertices * 12, numFaces * 3);
+  checkIndices(faces, numVertices);
+  return { points, faces, numVertices, numFaces };
+}
+
+/** Encode a packed mesh into the binary wire format (used by tools and for round-trips) */
+export function encodeMeshBuffer(mesh: PackedSurfaceMesh): ArrayBuffer {
+  const buffer = new ArrayBuffer(HEADER_BYTES + mesh.numVertices * 12 + mesh.numFaces * 12);
+  const header = new DataView(buffer, 0, HEADER_BYTES);
+  for (let i = 0; i < 4; i++) header.setUint8(i, MAGIC.charCodeAt(i));
+  header.setUint32(4, VERSION, true);
+  header.setUint32(8, mesh.numVertices, true);
+  header.setUint32(12, mesh.numFaces, true);
+  new Float32Array(buffer, HEADER_BYTES, mesh.numVertices * 3).set(mesh.points);
+  new Uint32Array(buffer, HEADER_BYTES + mesh.numVertices * 12, mesh.numFaces * 3).set(mesh.faces);
+  return buffer;
+}
+
+/** Pack the JSON `{ vertices, faces }` shape — the fallback when the backend only speaks JSON */
+export function packSurfaceMesh(mesh: SurfaceMesh): PackedSurfaceMesh {
+  const numVertices = mesh.vertices?.length ?? 0;
+  const numFaces = mesh.faces?.length ?? 0;
+
+  const points = new Float32Array(numVertices * 3);
+  for (let i = 0; i < numVertices; i++) {
+    points[i * 3] = mesh.vertices[i][0];
+    points[i * 3 + 1] = mesh.vertices[i][1];
+    points[i * 3 + 2] = mesh.vertices[i][2];
+  }
+
+  const faces = new Uint32Array(numFaces * 3);
+  for (let i = 0; i < numFaces; i++) {
+    faces[i * 3] = mesh.faces[i][0];
+    faces[i * 3 + 1] = mesh.faces[i][1];
+    faces[i * 3 + 2] = mesh.faces[i][2];
+  }
+  checkIndices(faces, numVertices);
+
+  return { points, faces, numVertices, numFaces };
+}
+
+/** Triangle indices → VTK cell array layout [3, a, b, c, 3, …] */
+export function toVtkPolys(faces: Uint32Array): Uint32Array {
+  const numFaces = faces.length / 3;
+  const polys = new Uint32Array(numFaces * 4);
+  for (let i = 0; i < numFaces; i++) {
+    polys[i * 4] = 3;
+    polys[i * 4 + 1] = faces[i * 3];
+    polys[i * 4 + 2] = faces[i * 3 + 1];
+    polys[i * 4 + 3] = faces[i * 3 + 2];
+  }
+  return polys;
+}
@@ -0,0 +1,72 @@
+import { getMeshFrom } from "./api";
+import { buildSceneColors, transferablesOf } from "./sceneGeometry";
+import type { MeshWorkerRequest, MeshWorkerResponse } from "./meshWorkerClient";
+
+/* ── Off-main-thread mesh decoding and scene coloring ── */
+
+/** The bits of DedicatedWorkerGlobalScope we use (the project compiles against the DOM lib) */
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<MeshWorkerRequest>) => void) | null;
+  postMessage(message: MeshWorkerResponse, transfer: Transferable[]): void;
+}
+
+const ctx = self as unknown as WorkerScope;
+
+/** In-flight mesh fetches, keyed by request id, so "cancel" can abort them */
+const inflight = new Map<number, AbortController>();
+
+function reply(msg: MeshWorkerResponse, transfer: Transferable[] = []) {
+  ctx.postMessage(msg, transfer);
+}
+
+ctx.onmessage = async (event: MessageEvent<MeshWorkerRequest>) => {
+  const req = event.data;
+
+  switch (req.type) {
+    case "cancel":
+      inflight.get(req.id)?.abort();
+      inflight.delete(req.id);
+      break;
+
+    case "loadMesh": {
+      const controller = new AbortController();
+      inflight.set(req.id, controller);
+      try {
+        const mesh = await getMeshFrom(req.source, controller.signal);
+        if (controller.signal.aborted) return;
+        reply({ type: "mesh", id: req.id, mesh }, transferablesOf(mesh.points, mesh.faces));
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        reply({
+          type: "error",
+          id: req.id,
+          message: err instanceof Error ? err.message : String(err),
+          name: err instanceof Error ? err.name : undefined,
+        });
+      } finally {
+        inflight.delete(req.id);
+      }
+      break;
+    }
+
+    case "sceneColors": {
+      try {
+        const colors = buildSceneColors(req.numFaces, req.segments, req.highlightIds);
+        reply(
+          { type: "sceneColors", id: req.id, colors },
+          transferablesOf(
+            colors.faceColors,
+            colors.faceSegmentIds,
+            colors.centerline?.points,
+            colors.centerline?.lines,
+            colors.centerline?.colors,
+            colors.centerline?.cellSegmentIds,
+          ),
+        );
+      } catch (err) {
+        reply({ type: "error", id: req.id, message: err instanceof Error ? err.message : String(err) });
+      }
+      break;
+    }
+  }
+};
@@ -0,0 +1,108 @@
+import { getMeshFrom, type MeshSource, type Segment } from "./api";
+import { abortError } from "./abort";
+import type { PackedSurfaceMesh } from "./meshBuffer";
+import { buildSceneColors, toSceneSegments, type SceneColors, type SceneSegment } from "./sceneGeometry";
+
+/* ── Mesh worker protocol ── */
+
+export type MeshWorkerRequest =
+  | { type: "loadMesh"; id: number; source: MeshSource }
+  | { type: "sceneColors"; id: number; numFaces: number; segments: SceneSegment[]; highlightIds: number[] }
+  | { type: "cancel"; id: number };
+
+export type MeshWorkerResponse =
+  | { type: "mesh"; id: number; mesh: PackedSurfaceMesh }
+  | { type: "sceneColors"; id: number; colors: SceneColors }
+  /** `name` carries the error kind across (e.g. incompatible-backend errors) */
+  | { type: "error"; id: number; message: string; name?: string };
+
+interface Pending {
+  resolve: (value: unknown) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Runs mesh decoding and scene coloring in a Web Worker; results come back as
+ * transferred typed arrays. Falls back to the main thread where Worker is unavailable.
+ * Pass an AbortSignal to cancel — e.g. when the user switches sessions mid-decode.
+ */
+export class MeshWorkerClient {
+  private readonly worker: Worker | null = null;
+  private readonly pending = new Map<number, Pending>();
+  private nextId = 1;
+
+  constructor() {
+    if (typeof Worker === "undefined") return;
+    this.worker = new Worker(new URL("./meshWorker.ts", import.meta.url), { type: "module" });
+    this.worker.onmessage = (event: MessageEvent<MeshWorkerResponse>) => this.settle(event.data);
+    this.worker.onerror = (event) => {
+      console.error("[MeshWorker] ❌ worker error:", event.message);
+      for (const p of this.pending.values()) p.reject(new Error(event.message || "Mesh worker crashed"));
+      this.pending.clear();
+    };
+  }
+
+  loadMesh(source: MeshSource, signal?: AbortSignal): Promise<PackedSurfaceMesh> {
+    if (!this.worker) return getMeshFrom(source, signal);
+    return this.request<PackedSurfaceMesh>((id) => ({ type: "loadMesh", id, source }), signal);
+  }
+
+  sceneColors(numFaces: number, segments: Segment[], highlightIds: number[], signal?: AbortSignal): Promise<SceneColors> {
+    const slim = toSceneSegments(segments);
+    if (!this.worker) return Promise.resolve(buildSceneColors(numFaces, slim, highlightIds));
+    return this.request<SceneColors>((id) => ({ type: "sceneColors", id, numFaces, segments: slim, highlightIds }), signal);
+  }
+
+  dispose() {
+    for (const p of this.pending.values()) p.reject(abortError());
+    this.pending.clear();
+    this.worker?.terminate();
+  }
+
+  private request<T>(build: (id: number) => MeshWorkerRequest, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(abortError());
+    const id = this.nextId++;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        if (!this.pending.delete(id)) return;
+        this.worker?.postMessage({ type: "cancel", id } satisfies MeshWorkerRequest);
+        reject(abortError());
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: (value) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(value as T);
+        },
+        reject: (err) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(err);
+        },
+      });
+      this.worker!.postMessage(build(id));
+    });
+  }
+
+  private settle(msg: MeshWorkerResponse) {
+    const p = this.pending.get(msg.id);
+    if (!p) return; // cancelled — drop the late result
+    this.pending.delete(msg.id);
+
+    switch (msg.type) {
+      case "mesh":
+        p.resolve(msg.mesh);
+        break;
+      case "sceneColors":
+        p.resolve(msg.colors);
+        break;
+      case "error": {
+        const err = new Error(msg.message);
+        if (msg.name) err.name = msg.name;
+        p.reject(err);
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,139 @@
+/* ── Shared low-level readers for mesh file formats ── */
+
+/** Builds the format-specific Error thrown for malformed input */
+export type FailFn = (message: string) => Error;
+
+/** Line/byte cursor over a raw file — for formats that mix ASCII headers with binary payloads */
+export class ByteCursor {
+  pos = 0;
+  readonly view: DataView;
+  private readonly decoder = new TextDecoder();
+
+  constructor(readonly bytes: Uint8Array, private readonly fail: FailFn) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.pos >= this.bytes.length;
+  }
+
+  readLine(): string {
+    const start = this.pos;
+    let end = this.bytes.indexOf(10, start);
+    if (end < 0) end = this.bytes.length;
+    this.pos = end + 1;
+    return this.decoder.decode(this.bytes.subarray(start, end)).replace(/\r$/, "");
+  }
+
+  /** Next non-blank line, trimmed — or null at end of file */
+  nextLine(): string | null {
+    while (!this.done) {
+      const line = this.readLine().trim();
+      if (line) return line;
+    }
+    return null;
+  }
+
+  expectLine(expected: string) {
+    const line = this.nextLine();
+    if (line !== expected) {
+      throw this.fail(`expected ${expected}, found ${line === null ? "end of file" : `"${line.slice(0, 40)}"`}`);
+    }
+  }
+
+  /** Text up to (and consuming) the line equal to `endMarker` */
+  readUntil(endMarker: string): string {
+    const lines: string[] = [];
+    while (!this.done) {
+      const line = this.readLine();
+      if (line.trim() === endMarker) return lines.join("\n");
+      lines.push(line);
+    }
+    throw this.fail(`missing ${endMarker}`);
+  }
+
+  /** Everything from the cursor to the end of the file, as text */
+  readRest(): string {
+    const text = this.decoder.decode(this.bytes.subarray(this.pos));
+    this.pos = this.bytes.length;
+    return text;
+  }
+
+  /** Reserve `n` bytes and return their offset */
+  take(n: number, what = "file"): number {
+    const at = this.pos;
+    if (at + n > this.bytes.length) throw this.fail(`unexpected end of ${what}`);
+    this.pos += n;
+    return at;
+  }
+}
+
+/** Whitespace-separated token stream over ASCII data */
+export class TokenStream {
+  private readonly tokens: string[];
+  private index = 0;
+
+  constructor(text: string, private readonly fail: FailFn, private readonly what: string) {
+    this.tokens = text.split(/\s+/).filter(Boolean);
+  }
+
+  get done(): boolean {
+    return this.index >= this.tokens.length;
+  }
+
+  peek(): string | undefined {
+    return this.tokens[this.index];
+  }
+
+  next(): string {
+    if (this.done) throw this.fail(`unexpected end of ${this.what}`);
+    return this.tokens[this.index++];
+  }
+
+  number(): number {
+    const token = this.next();
+    const value = Number(token);
+    if (!Number.isFinite(value)) throw this.fail(`non-numeric value "${token.slice(0, 20)}" in ${this.what}`);
+    return value;
+  }
+
+  /** Non-negative integer (counts, indices) */
+  count(): number {
+    const value = this.number();
+    if (value < 0 || !Number.isInteger(value)) throw this.fail(`invalid count ${value} in ${this.what}`);
+    return value;
+  }
+
+  finish() {
+    if (!this.done) throw this.fail(`unexpected trailing data in ${this.what}`);
+  }
+}
+
+/** Binary scalar types shared by PLY and legacy VTK headers */
+export type ScalarType = "int8" | "uint8" | "int16" | "uint16" | "int32" | "uint32" | "int64" | "uint64" | "float32" | "float64";
+
+const SCALAR_SIZES: Record<ScalarType, number> = {
+  int8: 1, uint8: 1, int16: 2, uint16: 2, int32: 4, uint32: 4, int64: 8, uint64: 8, float32: 4, float64: 8,
+};
+
+/** Read one binary scalar at the cursor */
+export function readScalar(cursor: ByteCursor, type: ScalarType, littleEndian: boolean, what?: string): number {
+  const at = cursor.take(SCALAR_SIZES[type], what);
+  const v = cursor.view;
+  switch (type) {
+    case "int8": return v.getInt8(at);
+    case "uint8": return v.getUint8(at);
+    case "int16": return v.getInt16(at, littleEndian);
+    case "uint16": return v.getUint16(at, littleEndian);
+    case "int32": return v.getInt32(at, littleEndian);
+    case "uint32": return v.getUint32(at, littleEndian);
+    case "float32": return v.getFloat32(at, littleEndian);
+    case "float64": return v.getFloat64(at, littleEndian);
+    case "int64":
+    case "uint64": {
+      const lo = v.getUint32(at + (littleEndian ? 0 : 4), littleEndian);
+      const hi = littleEndian ? v.getInt32(at + 4, true) : v.getInt32(at, false);
+      return (type === "uint64" ? hi >>> 0 : hi) * 2 ** 32 + lo;
+    }
+  }
+}
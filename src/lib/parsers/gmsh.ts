@@ -0,0 +1,293 @@
+import { ByteCursor, TokenStream, readScalar } from "./cursor";
+import { EdgeSet, type MeshGraph } from "./graph";
+
+/* ── Gmsh 4.1 reader (ASCII + binary) ── */
+
+export interface GmshEntityCounts {
+  points: number;
+  curves: number;
+  surfaces: number;
+  volumes: number;
+}
+
+export interface GmshMesh extends MeshGraph {
+  version: string;
+  binary: boolean;
+  /** Entity counts from $Entities, or null if the file has no such section */
+  entities: GmshEntityCounts | null;
+  numElements: number;
+  /** Flat triangle node indices (quads split in two) — empty for line/volume-only meshes */
+  triangles: Uint32Array;
+}
+
+interface ElementShape {
+  /** Nodes stored per element in $Elements */
+  nodes: number;
+  /** Corner loops/segments that contribute graph edges */
+  edges: number[][];
+  /** Corner triangles for a surface preview */
+  tris: number[][];
+}
+
+const LINE: Omit<ElementShape, "nodes"> = { edges: [[0, 1]], tris: [] };
+const TRI: Omit<ElementShape, "nodes"> = { edges: [[0, 1, 2]], tris: [[0, 1, 2]] };
+const QUAD: Omit<ElementShape, "nodes"> = { edges: [[0, 1, 2, 3]], tris: [[0, 1, 2], [0, 2, 3]] };
+const TET: Omit<ElementShape, "nodes"> = { edges: [[0, 1, 2], [0, 3], [1, 3], [2, 3]], tris: [] };
+const HEX: Omit<ElementShape, "nodes"> = { edges: [[0, 1, 2, 3], [4, 5, 6, 7], [0, 4], [1, 5], [2, 6], [3, 7]], tris: [] };
+const PRISM: Omit<ElementShape, "nodes"> = { edges: [[0, 1, 2], [3, 4, 5], [0, 3], [1, 4], [2, 5]], tris: [] };
+const PYRAMID: Omit<ElementShape, "nodes"> = { edges: [[0, 1, 2, 3], [0, 4], [1, 4], [2, 4], [3, 4]], tris: [] };
+
+/** Gmsh element type id → shape. Higher-order elements only use their corner nodes. */
+const ELEMENT_SHAPES: Record<number, ElementShape> = {
+  1: { nodes: 2, ...LINE },
+  2: { nodes: 3, ...TRI },
+  3: { nodes: 4, ...QUAD },
+  4: { nodes: 4, ...TET },
+  5: { nodes: 8, ...HEX },
+  6: { nodes: 6, ...PRISM },
+  7: { nodes: 5, ...PYRAMID },
+  8: { nodes: 3, ...LINE },
+  9: { nodes: 6, ...TRI },
+  10: { nodes: 9, ...QUAD },
+  11: { nodes: 10, ...TET },
+  12: { nodes: 27, ...HEX },
+  13: { nodes: 18, ...PRISM },
+  14: { nodes: 14, ...PYRAMID },
+  15: { nodes: 1, edges: [], tris: [] },
+  16: { nodes: 8, ...QUAD },
+  17: { nodes: 20, ...HEX },
+  18: { nodes: 15, ...PRISM },
+  19: { nodes: 13, ...PYRAMID },
+};
+
+function fail(message: string): Error {
+  return new Error(`Invalid Gmsh file: ${message}`);
+}
+
+/** Reads the typed values of one section — either whitespace tokens or packed binary */
+interface ValueReader {
+  int(): number;
+  size(): number;
+  float(): number;
+}
+
+class AsciiValues implements ValueReader {
+  constructor(private readonly tokens: TokenStream) {}
+
+  int(): number {
+    return this.tokens.number();
+  }
+
+  size(): number {
+    return this.tokens.count();
+  }
+
+  float(): number {
+    return this.tokens.number();
+  }
+}
+
+class BinaryValues implements ValueReader {
+  constructor(
+    private readonly cursor: ByteCursor,
+    private readonly sizeT: number,
+    private readonly littleEndian: boolean,
+    private readonly section: string,
+  ) {}
+
+  int(): number {
+    return readScalar(this.cursor, "int32", this.littleEndian, `${this.section} section`);
+  }
+
+  size(): number {
+    return readScalar(this.cursor, this.sizeT === 4 ? "uint32" : "uint64", this.littleEndian, `${this.section} section`);
+  }
+
+  float(): number {
+    return readScalar(this.cursor, "float64", this.littleEndian, `${this.section} section`);
+  }
+}
+
+function readEntities(r: ValueReader): GmshEntityCounts {
+  const counts = { points: r.size(), curves: r.size(), surfaces: r.size(), volumes: r.size() };
+
+  for (let i = 0; i < counts.points; i++) {
+    r.int();
+    r.float(); r.float(); r.float();
+    const numPhysical = r.size();
+    for (let j = 0; j < numPhysical; j++) r.int();
+  }
+  // Curves, surfaces and volumes share one layout: bounding box + physical tags + bounding entities
+  const numHigher = counts.curves + counts.surfaces + counts.volumes;
+  for (let i = 0; i < numHigher; i++) {
+    r.int();
+    for (let j = 0; j < 6; j++) r.float();
+    const numPhysical = r.size();
+    for (let j = 0; j < numPhysical; j++) r.int();
+    const numBounding = r.size();
+    for (let j = 0; j < numBounding; j++) r.int();
+  }
+  return counts;
+}
+
+function readNodes(r: ValueReader): { points: Float32Array; indexByTag: Map<number, number> } {
+  const numBlocks = r.size();
+  const numNodes = r.size();
+  r.size(); // minNodeTag
+  r.size(); // maxNodeTag
+
+  const points = new Float32Array(numNodes * 3);
+  const indexByTag = new Map<number, number>();
+  let next = 0;
+
+  for (let b = 0; b < numBlocks; b++) {
+    const entityDim = r.int();
+    r.int(); // entityTag
+    const parametric = r.int();
+    const count = r.size();
+    if (next + count > numNodes) throw fail(`$Nodes blocks hold more than the declared ${numNodes} nodes`);
+
+    const first = next;
+    for (let i = 0; i < count; i++) {
+      const tag = r.size();
+      if (indexByTag.has(tag)) throw fail(`duplicate node tag ${tag}`);
+      indexByTag.set(tag, first + i);
+    }
+    const extra = parametric ? entityDim : 0;
+    for (let i = 0; i < count; i++) {
+      points[(first + i) * 3] = r.float();
+      points[(first + i) * 3 + 1] = r.float();
+      points[(first + i) * 3 + 2] = r.float();
+      for (let j = 0; j < extra; j++) r.float();
+    }
+    next += count;
+  }
+
+  if (next !== numNodes) throw fail(`$Nodes declares ${numNodes} nodes but contains ${next}`);
+  return { points, indexByTag };
+}
+
+function readElements(r: ValueReader, indexByTag: Map<number, number>, edges: EdgeSet, triangles: number[]): number {
+  const numBlocks = r.size();
+  const numElements = r.size();
+  r.size(); // minElementTag
+  r.size(); // maxElementTag
+
+  let seen = 0;
+  for (let b = 0; b < numBlocks; b++) {
+    r.int(); // entityDim
+    r.int(); // entityTag
+    const type = r.int();
+    const count = r.size();
+    const shape = ELEMENT_SHAPES[type];
+    if (!shape) throw fail(`unsupported element type ${type}`);
+
+    const local = new Array<number>(shape.nodes);
+    for (let i = 0; i < count; i++) {
+      const elementTag = r.size();
+      for (let n = 0; n < shape.nodes; n++) {
+        const nodeTag = r.size();
+        const index = indexByTag.get(nodeTag);
+        if (index === undefined) throw fail(`element ${elementTag} references unknown node ${nodeTag}`);
+        local[n] = index;
+      }
+      for (const loop of shape.edges) {
+        if (loop.length === 2) edges.add(local[loop[0]], local[loop[1]]);
+        else edges.addLoop(loop.map((k) => local[k]));
+      }
+      for (const tri of shape.tris) {
+        triangles.push(local[tri[0]], local[tri[1]], local[tri[2]]);
+      }
+    }
+    seen += count;
+  }
+
+  if (seen !== numElements) throw fail(`$Elements declares ${numElements} elements but contains ${seen}`);
+  return numElements;
+}
+
+/**
+ * Parse a Gmsh 4.1 `.msh` file (ASCII or binary).
+ * Reads $Entities, $Nodes and $Elements; other sections are skipped.
+ * Throws a descriptive Error for anything malformed.
+ */
+export function parseGmsh(buffer: ArrayBuffer): GmshMesh {
+  const cursor = new ByteCursor(new Uint8Array(buffer), fail);
+
+  if (cursor.nextLine() !== "$MeshFormat") throw fail("missing $MeshFormat header");
+  const [version, fileType, dataSize] = cursor.readLine().trim().split(/\s+/);
+  if (version !== "4.1") throw fail(`unsupported format version ${version || "?"} (expected 4.1)`);
+
+  const binary = fileType === "1";
+  if (!binary && fileType !== "0") throw fail(`unknown file type ${fileType}`);
+  const sizeT = Number(dataSize);
+  if (sizeT !== 4 && sizeT !== 8) throw fail(`unsupported data size ${dataSize}`);
+
+  let littleEndian = true;
+  if (binary) {
+    if (cursor.pos + 4 > cursor.bytes.length) throw fail("truncated binary header");
+    if (cursor.view.getInt32(cursor.pos, true) === 1) littleEndian = true;
+    else if (cursor.view.getInt32(cursor.pos, false) === 1) littleEndian = false;
+    else throw fail("unreadable binary endianness marker");
+    cursor.pos += 4;
+  }
+  cursor.expectLine("$EndMeshFormat");
+
+  const openSection = (name: string): { values: ValueReader; close: () => void } => {
+    const end = `$End${name}`;
+    if (binary) {
+      return {
+        values: new BinaryValues(cursor, sizeT, littleEndian, `$${name}`),
+        close: () => cursor.expectLine(end),
+      };
+    }
+    const tokens = new TokenStream(cursor.readUntil(end), fail, `$${name} section`);
+    return { values: new AsciiValues(tokens), close: () => tokens.finish() };
+  };
+
+  let entities: GmshEntityCounts | null = null;
+  let nodes: ReturnType<typeof readNodes> | null = null;
+  let numElements = 0;
+  let hasElements = false;
+  const triangles: number[] = [];
+  let edges: EdgeSet | null = null;
+
+  for (let header = cursor.nextLine(); header !== null; header = cursor.nextLine()) {
+    if (!header.startsWith("$")) throw fail(`unexpected content "${header.slice(0, 40)}" between sections`);
+    const name = header.slice(1);
+
+    if (name === "Entities") {
+      const { values, close } = openSection(name);
+      entities = readEntities(values);
+      close();
+    } else if (name === "Nodes") {
+      const { values, close } = openSection(name);
+      nodes = readNodes(values);
+      close();
+    } else if (name === "Elements") {
+      if (!nodes) throw fail("$Elements appears before $Nodes");
+      const { values, close } = openSection(name);
+      edges = new EdgeSet(nodes.points.length / 3);
+      numElements = readElements(values, nodes.indexByTag, edges, triangles);
+      hasElements = true;
+      close();
+    } else {
+      cursor.readUntil(`$End${name}`);
+    }
+  }
+
+  if (!nodes) throw fail("missing $Nodes section");
+  if (!hasElements || !edges) throw fail("missing $Elements section");
+
+  return {
+    version,
+    binary,
+    entities,
+    numElements,
+    points: nodes.points,
+    edges: edges.toArray(),
+    triangles: new Uint32Array(triangles),
+    numNodes: nodes.points.length / 3,
+    numEdges: edges.size,
+  };
+}
@@ -0,0 +1,47 @@
+/* ── Line graph built from mesh elements ── */
+
+/**
+ * Node/edge graph of a mesh, in the same terms the backend reports at ingest
+ * (`num_nodes` = points, `num_edges` = unique undirected element edges).
+ */
+export interface MeshGraph {
+  /** Flat xyz coordinates — 3 floats per node */
+  points: Float32Array;
+  /** Flat node index pairs — 2 indices per undirected edge */
+  edges: Uint32Array;
+  numNodes: number;
+  numEdges: number;
+}
+
+/** Collects undirected edges between node indices, ignoring duplicates and self-loops */
+export class EdgeSet {
+  private readonly keys = new Set<number>();
+  private readonly pairs: number[] = [];
+
+  constructor(private readonly numNodes: number) {}
+
+  add(a: number, b: number) {
+    if (a === b) return;
+    const lo = a < b ? a : b;
+    const hi = a < b ? b : a;
+    const key = lo * this.numNodes + hi;
+    if (this.keys.has(key)) return;
+    this.keys.add(key);
+    this.pairs.push(lo, hi);
+  }
+
+  /** Add the closed loop a→b→c→…→a */
+  addLoop(indices: ArrayLike<number>) {
+    for (let i = 0; i < indices.length; i++) {
+      this.add(indices[i], indices[(i + 1) % indices.length]);
+    }
+  }
+
+  get size(): number {
+    return this.keys.size;
+  }
+
+  toArray(): Uint32Array {
+    return new Uint32Array(this.pairs);
+  }
+}
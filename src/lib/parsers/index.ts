@@ -0,0 +1,75 @@
+import type { SurfaceMesh } from "../api";
+import { parseGmsh } from "./gmsh";
+import type { MeshGraph } from "./graph";
+import { parseObj } from "./obj";
+import { parsePly } from "./ply";
+import { polygonGraph, triangulate, type PolygonMesh } from "./polygons";
+import { parseStl } from "./stl";
+import { parseVtk } from "./vtk";
+
+/* ── Client-side mesh readers — one entry point for every upload format ── */
+
+export type MeshFileFormat = "msh" | "stl" | "obj" | "ply" | "vtk";
+
+export const MESH_FORMATS: Record<MeshFileFormat, { label: string; extension: string }> = {
+  msh: { label: "Gmsh", extension: ".msh" },
+  stl: { label: "STL", extension: ".stl" },
+  obj: { label: "OBJ", extension: ".obj" },
+  ply: { label: "PLY", extension: ".ply" },
+  vtk: { label: "VTK", extension: ".vtk" },
+};
+
+/** Value for `<input accept>` covering every supported format */
+export const MESH_ACCEPT = Object.values(MESH_FORMATS).map((f) => f.extension).join(",");
+
+export interface ParsedMesh {
+  format: MeshFileFormat;
+  /** Triangulated surface — same shape as GET /mesh returns to MeshViewer */
+  surface: SurfaceMesh;
+  /** Node/edge graph for the preview and the ingest count check */
+  graph: MeshGraph;
+}
+
+export function detectMeshFormat(fileName: string): MeshFileFormat | null {
+  const ext = fileName.toLowerCase().split(".").pop() || "";
+  return ext in MESH_FORMATS ? (ext as MeshFileFormat) : null;
+}
+
+function fromPolygons(format: MeshFileFormat, mesh: PolygonMesh): ParsedMesh {
+  return {
+    format,
+    surface: { vertices: mesh.vertices, faces: triangulate(mesh.polygons) },
+    graph: polygonGraph(mesh),
+  };
+}
+
+/** Parse raw file contents of a known format. Throws an Error naming the format on malformed input. */
+export function parseMeshBuffer(format: MeshFileFormat, buffer: ArrayBuffer): ParsedMesh {
+  switch (format) {
+    case "msh": {
+      const gmsh = parseGmsh(buffer);
+      const vertices: number[][] = [];
+      for (let i = 0; i < gmsh.numNodes; i++) {
+        vertices.push([gmsh.points[i * 3], gmsh.points[i * 3 + 1], gmsh.points[i * 3 + 2]]);
+      }
+      const faces: number[][] = [];
+      for (let i = 0; i < gmsh.triangles.length; i += 3) {
+        faces.push([gmsh.triangles[i], gmsh.triangles[i + 1], gmsh.triangles[i + 2]]);
+      }
+      return { format, surface: { vertices, faces }, graph: gmsh };
+    }
+    case "stl": return fromPolygons(format, parseStl(buffer));
+    case "obj": return fromPolygons(format, parseObj(buffer));
+    case "ply": return fromPolygons(format, parsePly(buffer));
+    case "vtk": return fromPolygons(format, parseVtk(buffer));
+  }
+}
+
+/** Detect the format from the file name and parse it */
+export async function parseMeshFile(file: File): Promise<ParsedMesh> {
+  const format = detectMeshFormat(file.name);
+  if (!format) {
+    throw new Error(`Unsupported file type. Use one of: ${MESH_ACCEPT.split(",").join(" ")}`);
+  }
+  return parseMeshBuffer(format, await file.arrayBuffer());
+}
@@ -0,0 +1,56 @@
+import { checkPolygonMesh, type PolygonMesh } from "./polygons";
+
+/* ── Wavefront OBJ reader ── */
+
+function fail(message: string): Error {
+  return new Error(`Invalid OBJ file: ${message}`);
+}
+
+/**
+ * Parse a Wavefront OBJ file. Uses `v`, `f` and `l` statements;
+ * texture/normal indices, groups and materials are ignored.
+ */
+export function parseObj(buffer: ArrayBuffer): PolygonMesh {
+  const text = new TextDecoder().decode(buffer);
+  const vertices: number[][] = [];
+  const polygons: number[][] = [];
+  const lines: number[][] = [];
+
+  // "f 1/2/3 -1//4" → zero-based vertex indices; negative indices count back from the latest vertex
+  const resolve = (ref: string, ln: number): number => {
+    const index = parseInt(ref.split("/")[0], 10);
+    if (!Number.isInteger(index) || index === 0) throw fail(`line ${ln}: invalid vertex reference "${ref}"`);
+    return index > 0 ? index - 1 : vertices.length + index;
+  };
+
+  const rows = text.split("\n");
+  for (let i = 0; i < rows.length; i++) {
+    const ln = i + 1;
+    const row = rows[i].trim();
+    if (!row || row.startsWith("#")) continue;
+    const parts = row.split(/\s+/);
+
+    switch (parts[0]) {
+      case "v": {
+        const [x, y, z] = parts.slice(1, 4).map(Number);
+        if (parts.length < 4 || ![x, y, z].every(Number.isFinite)) throw fail(`line ${ln}: malformed vertex`);
+        vertices.push([x, y, z]);
+        break;
+      }
+      case "f": {
+        if (parts.length < 4) throw fail(`line ${ln}: face needs at least 3 vertices`);
+        polygons.push(parts.slice(1).map((ref) => resolve(ref, ln)));
+        break;
+      }
+      case "l": {
+        if (parts.length < 3) throw fail(`line ${ln}: line needs at least 2 vertices`);
+        lines.push(parts.slice(1).map((ref) => resolve(ref, ln)));
+        break;
+      }
+    }
+  }
+
+  const mesh = { vertices, polygons, lines };
+  checkPolygonMesh(mesh, fail);
+  return mesh;
+}
@@ -0,0 +1,134 @@
+import { ByteCursor, TokenStream, readScalar, type ScalarType } from "./cursor";
+import { checkPolygonMesh, type PolygonMesh } from "./polygons";
+
+/* ── Stanford PLY reader (ASCII + binary little/big endian) ── */
+
+function fail(message: string): Error {
+  return new Error(`Invalid PLY file: ${message}`);
+}
+
+const PLY_TYPES: Record<string, ScalarType> = {
+  char: "int8", int8: "int8",
+  uchar: "uint8", uint8: "uint8",
+  short: "int16", int16: "int16",
+  ushort: "uint16", uint16: "uint16",
+  int: "int32", int32: "int32",
+  uint: "uint32", uint32: "uint32",
+  float: "float32", float32: "float32",
+  double: "float64", float64: "float64",
+};
+
+interface PlyProperty {
+  name: string;
+  type: ScalarType;
+  /** Set for `property list <countType> <type> <name>` */
+  countType?: ScalarType;
+}
+
+interface PlyElement {
+  name: string;
+  count: number;
+  properties: PlyProperty[];
+}
+
+function plyType(name: string): ScalarType {
+  const type = PLY_TYPES[name];
+  if (!type) throw fail(`unknown property type "${name}"`);
+  return type;
+}
+
+function readHeader(cursor: ByteCursor): { format: string; elements: PlyElement[] } {
+  if (cursor.readLine().trim() !== "ply") throw fail('missing "ply" magic line');
+
+  let format = "";
+  const elements: PlyElement[] = [];
+  for (;;) {
+    if (cursor.done) throw fail("missing end_header");
+    const parts = cursor.readLine().trim().split(/\s+/);
+    switch (parts[0]) {
+      case "format":
+        format = parts[1];
+        if (parts[2] !== "1.0") throw fail(`unsupported version ${parts[2]}`);
+        break;
+      case "element": {
+        const count = Number(parts[2]);
+        if (!Number.isInteger(count) || count < 0) throw fail(`invalid count for element "${parts[1]}"`);
+        elements.push({ name: parts[1], count, properties: [] });
+        break;
+      }
+      case "property": {
+        const element = elements[elements.length - 1];
+        if (!element) throw fail("property declared before any element");
+        if (parts[1] === "list") {
+          element.properties.push({ name: parts[4], countType: plyType(parts[2]), type: plyType(parts[3]) });
+        } else {
+          element.properties.push({ name: parts[2], type: plyType(parts[1]) });
+        }
+        break;
+      }
+      case "end_header":
+        if (!format) throw fail("missing format line");
+        return { format, elements };
+    }
+  }
+}
+
+/** Parse a PLY file. Reads `vertex` (x, y, z), `face` (vertex_indices) and `edge` (vertex1, vertex2) elements. */
+export function parsePly(buffer: ArrayBuffer): PolygonMesh {
+  const cursor = new ByteCursor(new Uint8Array(buffer), fail);
+  const { format, elements } = readHeader(cursor);
+
+  let read: (type: ScalarType) => number;
+  let tokens: TokenStream | null = null;
+  if (format === "ascii") {
+    const stream = new TokenStream(cursor.readRest(), fail, "element data");
+    tokens = stream;
+    read = () => stream.number();
+  } else if (format === "binary_little_endian" || format === "binary_big_endian") {
+    const littleEndian = format === "binary_little_endian";
+    read = (type) => readScalar(cursor, type, littleEndian, "element data");
+  } else {
+    throw fail(`unknown format "${format}"`);
+  }
+
+  const vertices: number[][] = [];
+  const polygons: number[][] = [];
+  const lines: number[][] = [];
+
+  for (const element of elements) {
+    const names = element.properties.map((p) => p.name);
+    if (element.name === "vertex" && !["x", "y", "z"].every((axis) => names.includes(axis))) {
+      throw fail("vertex element lacks x/y/z properties");
+    }
+
+    for (let i = 0; i < element.count; i++) {
+      const values: Record<string, number | number[]> = {};
+      for (const prop of element.properties) {
+        if (prop.countType) {
+          const n = read(prop.countType);
+          const list: number[] = [];
+          for (let k = 0; k < n; k++) list.push(read(prop.type));
+          values[prop.name] = list;
+        } else {
+          values[prop.name] = read(prop.type);
+        }
+      }
+
+      if (element.name === "vertex") {
+        vertices.push([values.x as number, values.y as number, values.z as number]);
+      } else if (element.name === "face") {
+        const indices = values.vertex_indices ?? values.vertex_index;
+        if (!Array.isArray(indices)) throw fail("face element lacks a vertex_indices list");
+        if (indices.length < 3) throw fail(`face ${i} has fewer than 3 vertices`);
+        polygons.push(indices);
+      } else if (element.name === "edge" && typeof values.vertex1 === "number" && typeof values.vertex2 === "number") {
+        lines.push([values.vertex1, values.vertex2]);
+      }
+    }
+  }
+  tokens?.finish();
+
+  const mesh = { vertices, polygons, lines };
+  checkPolygonMesh(mesh, fail);
+  return mesh;
+}
@@ -0,0 +1,59 @@
+import type { FailFn } from "./cursor";
+import { EdgeSet, type MeshGraph } from "./graph";
+
+/* ── Polygon soup shared by the STL/OBJ/PLY/VTK readers ── */
+
+export interface PolygonMesh {
+  vertices: number[][];   // [[x,y,z], ...]
+  polygons: number[][];   // vertex index loops, 3 or more each
+  lines: number[][];      // polylines as vertex index runs, 2 or more each
+}
+
+/** Reject empty meshes and out-of-range indices with a format-specific message */
+export function checkPolygonMesh(mesh: PolygonMesh, fail: FailFn) {
+  const n = mesh.vertices.length;
+  if (n === 0) throw fail("no vertices found");
+  if (mesh.polygons.length === 0 && mesh.lines.length === 0) throw fail("no faces or lines found");
+
+  const check = (cells: number[][], kind: string) => {
+    for (let c = 0; c < cells.length; c++) {
+      for (const index of cells[c]) {
+        if (!Number.isInteger(index) || index < 0 || index >= n) {
+          throw fail(`${kind} ${c} references vertex ${index}, but the file has ${n} vertices`);
+        }
+      }
+    }
+  };
+  check(mesh.polygons, "face");
+  check(mesh.lines, "line");
+}
+
+/** Fan-triangulate polygons into [[v0,v1,v2], ...] */
+export function triangulate(polygons: number[][]): number[][] {
+  const faces: number[][] = [];
+  for (const poly of polygons) {
+    for (let i = 1; i + 1 < poly.length; i++) {
+      faces.push([poly[0], poly[i], poly[i + 1]]);
+    }
+  }
+  return faces;
+}
+
+/** Edge graph over the original polygon/polyline edges (fan diagonals are not edges) */
+export function polygonGraph(mesh: PolygonMesh): MeshGraph {
+  const numNodes = mesh.vertices.length;
+  const points = new Float32Array(numNodes * 3);
+  for (let i = 0; i < numNodes; i++) {
+    points[i * 3] = mesh.vertices[i][0];
+    points[i * 3 + 1] = mesh.vertices[i][1];
+    points[i * 3 + 2] = mesh.vertices[i][2];
+  }
+
+  const edges = new EdgeSet(numNodes);
+  for (const poly of mesh.polygons) edges.addLoop(poly);
+  for (const line of mesh.lines) {
+    for (let i = 0; i + 1 < line.length; i++) edges.add(line[i], line[i + 1]);
+  }
+
+  return { points, edges: edges.toArray(), numNodes, numEdges: edges.size };
+}
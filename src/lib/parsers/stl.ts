@@ -0,0 +1,97 @@
+import { ByteCursor, readScalar } from "./cursor";
+import { checkPolygonMesh, type PolygonMesh } from "./polygons";
+
+/* ── STL reader (ASCII + binary) ── */
+
+function fail(message: string): Error {
+  return new Error(`Invalid STL file: ${message}`);
+}
+
+/** Merges facet corners that share exact coordinates — STL stores every triangle's corners separately */
+class VertexWelder {
+  readonly vertices: number[][] = [];
+  private readonly indexByKey = new Map<string, number>();
+
+  add(x: number, y: number, z: number): number {
+    const key = `${x},${y},${z}`;
+    let index = this.indexByKey.get(key);
+    if (index === undefined) {
+      index = this.vertices.length;
+      this.vertices.push([x, y, z]);
+      this.indexByKey.set(key, index);
+    }
+    return index;
+  }
+}
+
+function isBinaryStl(bytes: Uint8Array): boolean {
+  if (bytes.length < 84) return false;
+  const count = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(80, true);
+  if (bytes.length === 84 + count * 50) return true;
+  // Some exporters write "solid" into binary headers, so only trust the keyword when sizes disagree
+  const head = new TextDecoder().decode(bytes.subarray(0, 5));
+  return head !== "solid";
+}
+
+function readBinary(bytes: Uint8Array): PolygonMesh {
+  const cursor = new ByteCursor(bytes, fail);
+  cursor.take(80, "header");
+  const count = readScalar(cursor, "uint32", true, "header");
+  if (bytes.length < 84 + count * 50) throw fail(`header declares ${count} triangles but the file is truncated`);
+
+  const welder = new VertexWelder();
+  const polygons: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    cursor.take(12); // facet normal
+    const tri: number[] = [];
+    for (let c = 0; c < 3; c++) {
+      const x = readScalar(cursor, "float32", true);
+      const y = readScalar(cursor, "float32", true);
+      const z = readScalar(cursor, "float32", true);
+      if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) throw fail(`triangle ${i} has non-finite coordinates`);
+      tri.push(welder.add(x, y, z));
+    }
+    cursor.take(2); // attribute byte count
+    polygons.push(tri);
+  }
+  return { vertices: welder.vertices, polygons, lines: [] };
+}
+
+function readAscii(text: string): PolygonMesh {
+  if (!/^\s*solid\b/.test(text)) throw fail('missing "solid" header');
+
+  const welder = new VertexWelder();
+  const polygons: number[][] = [];
+  let loop: number[] | null = null;
+  const lines = text.split("\n");
+
+  for (let ln = 0; ln < lines.length; ln++) {
+    const parts = lines[ln].trim().split(/\s+/);
+    switch (parts[0]) {
+      case "outer":
+        loop = [];
+        break;
+      case "vertex": {
+        if (!loop) throw fail(`line ${ln + 1}: vertex outside of "outer loop"`);
+        const [x, y, z] = parts.slice(1, 4).map(Number);
+        if (![x, y, z].every(Number.isFinite)) throw fail(`line ${ln + 1}: malformed vertex`);
+        loop.push(welder.add(x, y, z));
+        break;
+      }
+      case "endloop":
+        if (!loop || loop.length < 3) throw fail(`line ${ln + 1}: facet with fewer than 3 vertices`);
+        polygons.push(loop);
+        loop = null;
+        break;
+    }
+  }
+  return { vertices: welder.vertices, polygons, lines: [] };
+}
+
+/** Parse an STL file; binary vs ASCII is detected from the content */
+export function parseStl(buffer: ArrayBuffer): PolygonMesh {
+  const bytes = new Uint8Array(buffer);
+  const mesh = isBinaryStl(bytes) ? readBinary(bytes) : readAscii(new TextDecoder().decode(bytes));
+  checkPolygonMesh(mesh, fail);
+  return mesh;
+}
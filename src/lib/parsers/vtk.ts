@@ -0,0 +1,186 @@
+import { ByteCursor, TokenStream, readScalar, type ScalarType } from "./cursor";
+import { checkPolygonMesh, type PolygonMesh } from "./polygons";
+
+/* ── Legacy VTK reader (POLYDATA, ASCII + binary, classic and 5.x cell layouts) ── */
+
+function fail(message: string): Error {
+  return new Error(`Invalid VTK file: ${message}`);
+}
+
+const VTK_TYPES: Record<string, ScalarType> = {
+  bit: "uint8",
+  char: "int8", unsigned_char: "uint8",
+  short: "int16", unsigned_short: "uint16",
+  int: "int32", unsigned_int: "uint32",
+  long: "int64", unsigned_long: "uint64",
+  vtktypeint32: "int32", vtktypeuint32: "uint32",
+  vtktypeint64: "int64", vtktypeuint64: "uint64",
+  float: "float32", double: "float64",
+};
+
+/** Number of arguments following each dataset keyword */
+const KEYWORD_ARGS: Record<string, number> = {
+  POINTS: 2,
+  VERTICES: 2,
+  LINES: 2,
+  POLYGONS: 2,
+  TRIANGLE_STRIPS: 2,
+  OFFSETS: 1,
+  CONNECTIVITY: 1,
+  METADATA: 0,
+  POINT_DATA: 1,
+  CELL_DATA: 1,
+};
+
+/** Keyword lines and numeric arrays, read either as ASCII tokens or big-endian binary */
+interface VtkSource {
+  keyword(): string[] | null;
+  numbers(count: number, type: ScalarType): number[];
+  skipMetadata(): void;
+}
+
+function asciiSource(cursor: ByteCursor): VtkSource {
+  const tokens = new TokenStream(cursor.readRest(), fail, "dataset");
+  return {
+    keyword() {
+      if (tokens.done) return null;
+      const word = tokens.next().toUpperCase();
+      const args = KEYWORD_ARGS[word];
+      if (args === undefined) throw fail(`unexpected keyword "${word.slice(0, 30)}"`);
+      const parts = [word];
+      for (let i = 0; i < args; i++) parts.push(tokens.next());
+      return parts;
+    },
+    numbers(count) {
+      const out = new Array<number>(count);
+      for (let i = 0; i < count; i++) out[i] = tokens.number();
+      return out;
+    },
+    skipMetadata() {
+      // METADATA blocks end at the next dataset keyword
+      while (!tokens.done && KEYWORD_ARGS[tokens.peek()!.toUpperCase()] === undefined) tokens.next();
+    },
+  };
+}
+
+function binarySource(cursor: ByteCursor): VtkSource {
+  return {
+    keyword() {
+      const line = cursor.nextLine();
+      return line === null ? null : line.split(/\s+/).map((p, i) => (i === 0 ? p.toUpperCase() : p));
+    },
+    numbers(count, type) {
+      const out = new Array<number>(count);
+      for (let i = 0; i < count; i++) out[i] = readScalar(cursor, type, false, "binary data");
+      return out;
+    },
+    skipMetadata() {
+      // METADATA blocks end with a blank line
+      while (!cursor.done && cursor.readLine().trim() !== "");
+    },
+  };
+}
+
+function vtkType(name: string | undefined): ScalarType {
+  const type = name ? VTK_TYPES[name.toLowerCase()] : undefined;
+  if (!type) throw fail(`unsupported data type "${name}"`);
+  return type;
+}
+
+function count(value: string | undefined, what: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw fail(`invalid ${what} count "${value}"`);
+  return n;
+}
+
+/** Classic layout: `n size` followed by n runs of [k, i0 … ik-1] */
+function splitClassicCells(data: number[], n: number): number[][] {
+  const cells: number[][] = [];
+  let at = 0;
+  for (let c = 0; c < n; c++) {
+    const k = data[at];
+    if (!Number.isInteger(k) || k < 0 || at + 1 + k > data.length) throw fail(`cell ${c} overruns its cell array`);
+    cells.push(data.slice(at + 1, at + 1 + k));
+    at += 1 + k;
+  }
+  return cells;
+}
+
+/** 5.x layout: OFFSETS (n+1 entries) into a flat CONNECTIVITY array */
+function splitOffsetCells(offsets: number[], connectivity: number[]): number[][] {
+  const cells: number[][] = [];
+  for (let c = 0; c + 1 < offsets.length; c++) {
+    const start = offsets[c];
+    const end = offsets[c + 1];
+    if (start < 0 || end < start || end > connectivity.length) throw fail(`cell ${c} has invalid offsets`);
+    cells.push(connectivity.slice(start, end));
+  }
+  return cells;
+}
+
+function stripToTriangles(strip: number[]): number[][] {
+  const tris: number[][] = [];
+  for (let i = 0; i + 2 < strip.length; i++) {
+    tris.push(i % 2 === 0 ? [strip[i], strip[i + 1], strip[i + 2]] : [strip[i + 1], strip[i], strip[i + 2]]);
+  }
+  return tris;
+}
+
+/** Parse a legacy `.vtk` file containing `DATASET POLYDATA` */
+export function parseVtk(buffer: ArrayBuffer): PolygonMesh {
+  const cursor = new ByteCursor(new Uint8Array(buffer), fail);
+
+  const versionLine = cursor.readLine().trim();
+  const version = /^# vtk DataFile Version (\d+)/i.exec(versionLine);
+  if (!version) throw fail('missing "# vtk DataFile Version" header');
+  const offsetLayout = Number(version[1]) >= 5;
+
+  cursor.readLine(); // title
+  const encoding = (cursor.nextLine() || "").toUpperCase();
+  if (encoding !== "ASCII" && encoding !== "BINARY") throw fail(`expected ASCII or BINARY, found "${encoding.slice(0, 20)}"`);
+  const dataset = (cursor.nextLine() || "").split(/\s+/);
+  if (dataset[0]?.toUpperCase() !== "DATASET") throw fail("missing DATASET line");
+  if (dataset[1]?.toUpperCase() !== "POLYDATA") throw fail(`only POLYDATA datasets are supported, found ${dataset[1]}`);
+
+  const source = encoding === "ASCII" ? asciiSource(cursor) : binarySource(cursor);
+  const vertices: number[][] = [];
+  const polygons: number[][] = [];
+  const lines: number[][] = [];
+
+  const readCells = (n: number, size: number): number[][] => {
+    if (!offsetLayout) return splitClassicCells(source.numbers(size, "int32"), n);
+    const offsetsKw = source.keyword();
+    if (offsetsKw?.[0] !== "OFFSETS") throw fail("expected OFFSETS after cell header");
+    const offsets = source.numbers(n, vtkType(offsetsKw[1]));
+    const connKw = source.keyword();
+    if (connKw?.[0] !== "CONNECTIVITY") throw fail("expected CONNECTIVITY after OFFSETS");
+    return splitOffsetCells(offsets, source.numbers(size, vtkType(connKw[1])));
+  };
+
+  for (let kw = source.keyword(); kw !== null; kw = source.keyword()) {
+    const [word, a, b] = kw;
+    if (word === "POINTS") {
+      const n = count(a, "point");
+      const flat = source.numbers(n * 3, vtkType(b));
+      for (let i = 0; i < n; i++) vertices.push([flat[i * 3], flat[i * 3 + 1], flat[i * 3 + 2]]);
+    } else if (word === "POLYGONS") {
+      polygons.push(...readCells(count(a, "polygon"), count(b, "polygon size")));
+    } else if (word === "TRIANGLE_STRIPS") {
+      for (const strip of readCells(count(a, "strip"), count(b, "strip size"))) polygons.push(...stripToTriangles(strip));
+    } else if (word === "LINES") {
+      lines.push(...readCells(count(a, "line"), count(b, "line size")));
+    } else if (word === "VERTICES") {
+      readCells(count(a, "vertex"), count(b, "vertex size"));
+    } else if (word === "METADATA") {
+      source.skipMetadata();
+    } else if (word === "POINT_DATA" || word === "CELL_DATA") {
+      break; // attributes are not needed for geometry
+    } else {
+      throw fail(`unexpected keyword "${word.slice(0, 30)}"`);
+    }
+  }
+
+  const mesh = { vertices, polygons: polygons.filter((p) => p.length >= 3), lines: lines.filter((l) => l.length >= 2) };
+  checkPolygonMesh(mesh, fail);
+  return mesh;
+}
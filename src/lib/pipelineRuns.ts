@@ -0,0 +1,71 @@
+import type { ProgressEntry, RequestKind, RequestOutcome } from "./shapeClient";
+
+/* ── Pipeline runs — one per segmentation or query, with its progress steps ── */
+
+export interface PipelineRun {
+  request_id: string;
+  kind: RequestKind;
+  /** The question, for query runs */
+  query?: string;
+  started_at: number;
+  finished_at?: number;
+  outcome?: RequestOutcome;
+  error?: string;
+  steps: ProgressEntry[];
+}
+
+/** Oldest runs are dropped past this — enough to look back over a working session */
+const MAX_RUNS_PER_SESSION = 40;
+
+export function startRun(runs: PipelineRun[], run: Omit<PipelineRun, "steps" | "started_at">): PipelineRun[] {
+  const next = [...runs, { ...run, started_at: Date.now(), steps: [] }];
+  return next.length > MAX_RUNS_PER_SESSION ? next.slice(next.length - MAX_RUNS_PER_SESSION) : next;
+}
+
+export function addStep(runs: PipelineRun[], entry: ProgressEntry): PipelineRun[] {
+  return runs.map((run) => (run.request_id === entry.request_id ? { ...run, steps: [...run.steps, entry] } : run));
+}
+
+export function finishRun(runs: PipelineRun[], requestId: string, outcome: RequestOutcome, error?: string): PipelineRun[] {
+  return runs.map((run) =>
+    run.request_id === requestId && !run.outcome ? { ...run, outcome, error, finished_at: Date.now() } : run,
+  );
+}
+
+/** How long each step took — until the next step, or the end of the run (undefined while it's still going) */
+export function stepDurations(run: PipelineRun): (number | undefined)[] {
+  return run.steps.map((step, i) => {
+    const end = run.steps[i + 1]?.timestamp ?? run.finished_at;
+    return end === undefined ? undefined : end - step.timestamp;
+  });
+}
+
+/* ── Per-session storage ── */
+
+const storageKey = (sessionId: string) => `pipelineRuns:${sessionId}`;
+
+export function loadRuns(sessionId: string): PipelineRun[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(storageKey(sessionId)) || "[]");
+    if (!Array.isArray(parsed)) return [];
+    // A run still open when the page went away never finished
+    return parsed.map((run: PipelineRun) =>
+      run.outcome ? run : { ...run, outcome: "cancelled", error: "Page closed before it finished" },
+    );
+  } catch {
+    return [];
+  }
+}
+
+export function saveRuns(sessionId: string, runs: PipelineRun[]) {
+  try {
+    localStorage.setItem(storageKey(sessionId), JSON.stringify(runs));
+  } catch (err) {
+    // Quota — the timeline still works for this page load
+    console.warn("[PipelineRuns] could not persist runs:", err);
+  }
+}
+
+export function clearRuns(sessionId: string) {
+  localStorage.removeItem(storageKey(sessionId));
+}
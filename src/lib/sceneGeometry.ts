@@ -0,0 +1,162 @@
+import type { Segment } from "./api";
+import type { PackedSurfaceMesh } from "./meshBuffer";
+import { SEGMENT_COLORS, DEFAULT_MESH_COLOR, HIGHLIGHT_COLOR } from "@/components/meshConstants";
+
+/* ── Per-segment scene geometry: face colors + centerline overlay ── */
+
+/** The segment fields scene building needs — keeps worker messages small */
+export type SceneSegment = Pick<Segment, "segment_id" | "type" | "face_ids" | "downsampled_nodes" | "downsampled_edges">;
+
+export interface CenterlineGeometry {
+  /** Flat xyz of downsampled nodes, all segments concatenated */
+  points: Float32Array;
+  /** VTK line cell array */
+  lines: Uint32Array;
+  /** RGB per point */
+  colors: Uint8Array;
+  /** segment_id per line cell — for picking */
+  cellSegmentIds: Int32Array;
+}
+
+export interface SceneColors {
+  /** RGB per surface face */
+  faceColors: Uint8Array;
+  /** segment_id per surface face, -1 where no segment claims it — for picking */
+  faceSegmentIds: Int32Array;
+  centerline: CenterlineGeometry | null;
+}
+
+function segmentColor(seg: SceneSegment, highlighted: Set<number>): [number, number, number] {
+  return highlighted.has(seg.segment_id)
+    ? HIGHLIGHT_COLOR
+    : SEGMENT_COLORS[seg.type] || DEFAULT_MESH_COLOR;
+}
+
+/** Color faces by segment (same colors as centerline); faces outside any segment keep the default */
+export function buildFaceColors(numFaces: number, segments: SceneSegment[], highlightIds: number[]): Uint8Array {
+  const highlighted = new Set(highlightIds);
+  const faceColors = new Uint8Array(numFaces * 3);
+  for (let i = 0; i < numFaces; i++) {
+    faceColors[i * 3] = DEFAULT_MESH_COLOR[0];
+    faceColors[i * 3 + 1] = DEFAULT_MESH_COLOR[1];
+    faceColors[i * 3 + 2] = DEFAULT_MESH_COLOR[2];
+  }
+
+  for (const seg of segments) {
+    if (!seg.face_ids?.length) continue; // no face mapping → leave default
+    const color = segmentColor(seg, highlighted);
+    for (const faceIdx of seg.face_ids) {
+      if (faceIdx < numFaces) {
+        faceColors[faceIdx * 3] = color[0];
+        faceColors[faceIdx * 3 + 1] = color[1];
+        faceColors[faceIdx * 3 + 2] = color[2];
+      }
+    }
+  }
+  return faceColors;
+}
+
+export function buildFaceSegmentIds(numFaces: number, segments: SceneSegment[]): Int32Array {
+  const ids = new Int32Array(numFaces).fill(-1);
+  for (const seg of segments) {
+    for (const faceIdx of seg.face_ids ?? []) {
+      if (faceIdx < numFaces) ids[faceIdx] = seg.segment_id;
+    }
+  }
+  return ids;
+}
+
+/** Centerline polylines from each segment's downsampled nodes — null if nothing to draw */
+export function buildCenterline(segments: SceneSegment[], highlightIds: number[]): CenterlineGeometry | null {
+  const highlighted = new Set(highlightIds);
+  const clPoints: number[] = [];
+  const clLines: number[] = [];
+  const clColors: number[] = [];
+  const clCellSegments: number[] = [];
+  let offset = 0;
+
+  for (const seg of segments) {
+    const nodes = seg.downsampled_nodes;
+    if (!nodes || nodes.length < 2) continue;
+    const color = segmentColor(seg, highlighted);
+
+    for (const node of nodes) {
+      clPoints.push(node[0], node[1], node[2]);
+      clColors.push(color[0], color[1], color[2]);
+    }
+
+    const edges = seg.downsampled_edges;
+    if (edges && edges.length > 0) {
+      for (const edge of edges) {
+        clLines.push(2, edge[0] + offset, edge[1] + offset);
+        clCellSegments.push(seg.segment_id);
+      }
+    } else {
+      clLines.push(nodes.length);
+      for (let i = 0; i < nodes.length; i++) {
+        clLines.push(i + offset);
+      }
+      clCellSegments.push(seg.segment_id);
+    }
+    offset += nodes.length;
+  }
+
+  if (clPoints.length === 0) return null;
+  return {
+    points: new Float32Array(clPoints),
+    lines: new Uint32Array(clLines),
+    colors: new Uint8Array(clColors),
+    cellSegmentIds: new Int32Array(clCellSegments),
+  };
+}
+
+export function toSceneSegments(segments: Segment[]): SceneSegment[] {
+  return segments.map(({ segment_id, type, face_ids, downsampled_nodes, downsampled_edges }) => ({
+    segment_id, type, face_ids, downsampled_nodes, downsampled_edges,
+  }));
+}
+
+export function buildSceneColors(numFaces: number, segments: SceneSegment[], highlightIds: number[]): SceneColors {
+  return {
+    faceColors: buildFaceColors(numFaces, segments, highlightIds),
+    faceSegmentIds: buildFaceSegmentIds(numFaces, segments),
+    centerline: segments.length ? buildCenterline(segments, highlightIds) : null,
+  };
+}
+
+/** Axis-aligned [xmin, xmax, ymin, ymax, zmin, zmax] */
+export type Bounds = [number, number, number, number, number, number];
+
+/** Bounds of a segment's surface faces, falling back to its centerline nodes — null if it has neither */
+export function segmentBounds(seg: SceneSegment, mesh: PackedSurfaceMesh | null): Bounds | null {
+  const b: Bounds = [Infinity, -Infinity, Infinity, -Infinity, Infinity, -Infinity];
+  const grow = (x: number, y: number, z: number) => {
+    if (x < b[0]) b[0] = x;
+    if (x > b[1]) b[1] = x;
+    if (y < b[2]) b[2] = y;
+    if (y > b[3]) b[3] = y;
+    if (z < b[4]) b[4] = z;
+    if (z > b[5]) b[5] = z;
+  };
+
+  if (mesh && seg.face_ids?.length) {
+    for (const faceIdx of seg.face_ids) {
+      if (faceIdx >= mesh.numFaces) continue;
+      for (let k = 0; k < 3; k++) {
+        const v = mesh.faces[faceIdx * 3 + k] * 3;
+        grow(mesh.points[v], mesh.points[v + 1], mesh.points[v + 2]);
+      }
+    }
+  }
+  if (b[0] > b[1]) {
+    for (const node of seg.downsampled_nodes ?? []) grow(node[0], node[1], node[2]);
+  }
+  return b[0] > b[1] ? null : b;
+}
+
+/** Distinct buffers behind a set of typed arrays — for postMessage transfer lists */
+export function transferablesOf(...arrays: (ArrayBufferView | null | undefined)[]): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>();
+  for (const a of arrays) if (a) buffers.add(a.buffer as ArrayBuffer);
+  return [...buffers];
+}
@@ -0,0 +1,256 @@
+import type {
+  LoginResponse,
+  MeResponse,
+  UploadResponse,
+  SurfaceMesh,
+  ChatHistoryMessage,
+  SessionInfo,
+  SessionSearchHit,
+  ShareLink,
+  SharedSession,
+  Segment,
+  SegmentResult,
+  ToolCall,
+  QueryResult,
+  WsIncoming,
+} from "./api";
+import type { CameraState } from "@/components/meshConstants";
+
+/* ── Incompatible-backend errors ── */
+
+/**
+ * Thrown when a backend payload doesn't have the shape this frontend expects.
+ * `source` names the endpoint or message, the message names the failing field.
+ */
+export function incompatibleError(source: string, detail: string): Error {
+  const err = new Error(`Backend incompatible — ${source}: ${detail}`);
+  err.name = "IncompatibleBackendError";
+  return err;
+}
+
+export function isIncompatibleError(err: unknown): err is Error {
+  return err instanceof Error && err.name === "IncompatibleBackendError";
+}
+
+/* ── Checks ── */
+
+/** Validates `value` (found at `path`) and returns it typed, or throws naming the path */
+type Check<T> = (value: unknown, path: string) => T;
+
+function describe(value: unknown): string {
+  if (value === undefined) return "nothing";
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "object") return "an object";
+  if (typeof value === "string") return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  return `${typeof value} ${String(value)}`;
+}
+
+function mismatch(path: string, expected: string, value: unknown): never {
+  throw new Error(`${path || "response"} should be ${expected}, got ${describe(value)}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const string: Check<string> = (v, path) => (typeof v === "string" ? v : mismatch(path, "a string", v));
+
+const number: Check<number> = (v, path) =>
+  typeof v === "number" && Number.isFinite(v) ? v : mismatch(path, "a finite number", v);
+
+const boolean: Check<boolean> = (v, path) => (typeof v === "boolean" ? v : mismatch(path, "a boolean", v));
+
+const unknownValue: Check<unknown> = (v) => v;
+
+/** Missing or null → undefined (Python backends send null for unset optionals) */
+function optional<T>(check: Check<T>): Check<T | undefined> {
+  return (v, path) => (v === undefined || v === null ? undefined : check(v, path));
+}
+
+function oneOf<T extends string>(...values: T[]): Check<T> {
+  return (v, path) =>
+    values.includes(v as T) ? (v as T) : mismatch(path, `one of ${values.map((x) => `"${x}"`).join(", ")}`, v);
+}
+
+function arrayOf<T>(check: Check<T>): Check<T[]> {
+  return (v, path) => {
+    if (!Array.isArray(v)) return mismatch(path, "an array", v);
+    for (let i = 0; i < v.length; i++) check(v[i], `${path}[${i}]`);
+    return v as T[];
+  };
+}
+
+function recordOf<T>(check: Check<T>): Check<Record<string, T>> {
+  return (v, path) => {
+    if (!isRecord(v)) return mismatch(path, "an object", v);
+    for (const [key, value] of Object.entries(v)) check(value, path ? `${path}.${key}` : key);
+    return v as Record<string, T>;
+  };
+}
+
+/** Checks the listed fields; fields the frontend doesn't know about pass through untouched */
+function object<T>(shape: { [K in keyof T]-?: Check<T[K]> }): Check<T> {
+  return (v, path) => {
+    if (!isRecord(v)) return mismatch(path, "an object", v);
+    const out: Record<string, unknown> = { ...v };
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const value = shape[key](v[key], path ? `${path}.${key}` : key);
+      if (value === undefined) delete out[key];
+      else out[key] = value;
+    }
+    return out as T;
+  };
+}
+
+/** Run a check at the payload root; failures become incompatible-backend errors naming `source` */
+function parse<T>(check: Check<T>, data: unknown, source: string): T {
+  try {
+    return check(data, "");
+  } catch (err) {
+    throw incompatibleError(source, err instanceof Error ? err.message : String(err));
+  }
+}
+
+/* ── REST payloads ── */
+
+const sessionInfo = object<SessionInfo>({
+  session_id: string,
+  created_at: optional(string),
+  name: optional(string),
+  file_name: optional(string),
+  file_type: optional(string),
+  num_nodes: optional(number),
+  num_edges: optional(number),
+  segment_count: optional(number),
+});
+
+const sessionSearch = arrayOf(object<SessionSearchHit>({ session_id: string, snippet: optional(string) }));
+
+const sessionEntry: Check<string | SessionInfo> = (v, path) => (typeof v === "string" ? v : sessionInfo(v, path));
+
+const loginResponse = object<LoginResponse>({ uid: string, email: string, is_new: boolean, sessions: arrayOf(sessionEntry) });
+const meResponse = object<MeResponse>({ uid: string, email: string, sessions: arrayOf(sessionEntry) });
+
+const uploadResponse = object<UploadResponse>({
+  session: object<UploadResponse["session"]>({ session_id: string, uid: string, created_at: string }),
+  ingest: object<UploadResponse["ingest"]>({ num_nodes: number, num_edges: number, file_type: string }),
+});
+
+const surfaceMesh = object<SurfaceMesh>({ vertices: arrayOf(arrayOf(number)), faces: arrayOf(arrayOf(number)) });
+
+const chatMessage = object<ChatHistoryMessage>({ role: oneOf("user", "assistant"), content: string, timestamp: optional(string) });
+const chatHistory = arrayOf(chatMessage);
+
+const segment = object<Segment>({
+  segment_id: number,
+  type: string,
+  node_count: number,
+  original_node_ids: arrayOf(number),
+  face_ids: optional(arrayOf(number)),
+  length: number,
+  mean_curvature: number,
+  arc_angle_deg: number,
+  corner_angle_deg: number,
+  downsampled_nodes: arrayOf(arrayOf(number)),
+  downsampled_edges: arrayOf(arrayOf(number)),
+  embedding: arrayOf(number),
+  radius_est: optional(number),
+});
+
+const segmentResult = object<SegmentResult>({
+  segments: arrayOf(segment),
+  summary: object<SegmentResult["summary"]>({ total_segments: number, counts_by_type: recordOf(number) }),
+});
+
+const vec3: Check<[number, number, number]> = (v, path) =>
+  Array.isArray(v) && v.length === 3 ? (arrayOf(number)(v, path) as [number, number, number]) : mismatch(path, "an [x, y, z] array", v);
+
+const camera = object<CameraState>({ position: vec3, focalPoint: vec3, viewUp: vec3, viewAngle: number });
+
+const shareLink = object<ShareLink>({ token: string, session_id: string, created_at: optional(string) });
+
+const sharedSession = object<SharedSession>({
+  session: sessionInfo,
+  segments: optional(segmentResult),
+  chat: chatHistory,
+  highlight_ids: arrayOf(number),
+  camera: optional(camera),
+});
+
+export const parseLoginResponse = (data: unknown) => parse(loginResponse, data, "POST /auth/login");
+export const parseMeResponse = (data: unknown) => parse(meResponse, data, "GET /auth/me");
+export const parseUploadResponse = (data: unknown) => parse(uploadResponse, data, "POST /upload");
+export const parseSessionInfo = (data: unknown) => parse(sessionInfo, data, "PATCH /sessions");
+export const parseSessionSearch = (data: unknown) => parse(sessionSearch, data, "GET /sessions/search");
+export const parseSurfaceMesh = (data: unknown, source = "GET /mesh") => parse(surfaceMesh, data, source);
+export const parseChatHistory = (data: unknown) => parse(chatHistory, data, "GET /chat");
+export const parseSegmentResult = (data: unknown, source = "GET /segments") => parse(segmentResult, data, source);
+export const parseShareLink = (data: unknown) => parse(shareLink, data, "POST /share");
+export const parseShareLinks = (data: unknown) => parse(arrayOf(shareLink), data, "GET /share");
+export const parseSharedSession = (data: unknown) => parse(sharedSession, data, "GET /shared");
+
+/* ── WebSocket payloads ── */
+
+/** A query `result` as sent — fields the streamed answer already carries may be left out */
+export type QueryResultPayload = Partial<QueryResult>;
+
+const toolCall = object<ToolCall>({ tool: string, params: recordOf(unknownValue), result: unknownValue });
+
+const queryResult = object<QueryResultPayload>({
+  query: optional(string),
+  answer: optional(string),
+  tool_calls: optional(arrayOf(toolCall)),
+  highlight_ids: optional(arrayOf(number)),
+  mode: optional(string),
+});
+
+export const parseQueryResult = (data: unknown, source = "WS result") => parse(queryResult, data, source);
+
+type Msg<T extends WsIncoming["type"]> = Extract<WsIncoming, { type: T }>;
+
+/** `result.data` is checked once the request it answers — and so its shape — is known */
+const wsChecks: { [T in WsIncoming["type"]]: Check<Msg<T>> } = {
+  connected: object<Msg<"connected">>({
+    type: oneOf("connected"),
+    session: object<Msg<"connected">["session"]>({ session_id: string }),
+  }),
+  progress: object<Msg<"progress">>({
+    type: oneOf("progress"),
+    request_id: optional(string),
+    step: string,
+    detail: recordOf(unknownValue),
+    explanation: optional(string),
+  }),
+  result: object<Msg<"result">>({
+    type: oneOf("result"),
+    request_id: optional(string),
+    data: recordOf(unknownValue),
+  }),
+  answer_chunk: object<Msg<"answer_chunk">>({ type: oneOf("answer_chunk"), request_id: optional(string), delta: string }),
+  tool_call_start: object<Msg<"tool_call_start">>({
+    type: oneOf("tool_call_start"),
+    request_id: optional(string),
+    call_id: string,
+    tool: string,
+    params: recordOf(unknownValue),
+  }),
+  tool_call_end: object<Msg<"tool_call_end">>({
+    type: oneOf("tool_call_end"),
+    request_id: optional(string),
+    call_id: string,
+    result: unknownValue,
+    error: optional(string),
+  }),
+  error: object<Msg<"error">>({ type: oneOf("error"), request_id: optional(string), message: string }),
+};
+
+/** Validate a parsed socket message. Unknown message types return null — newer servers may send extras. */
+export function parseWsIncoming(data: unknown): WsIncoming | null {
+  if (!isRecord(data) || typeof data.type !== "string") {
+    throw incompatibleError("WS message", `type should be a string, got ${describe(isRecord(data) ? data.type : data)}`);
+  }
+  if (!Object.hasOwn(wsChecks, data.type)) return null;
+  const type = data.type as WsIncoming["type"];
+  return parse(wsChecks[type] as Check<WsIncoming>, data, `WS "${type}" message`);
+}
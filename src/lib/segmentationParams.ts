@@ -0,0 +1,100 @@
+import type { SegmentOptions } from "./shapeClient";
+
+/* ── Segmentation parameters ── */
+
+export type SegmentationParams = Required<SegmentOptions>;
+
+export const DEFAULT_SEGMENTATION_PARAMS: SegmentationParams = { target_step: 1.0, downsample_nodes: 16, embed: true };
+
+export const TARGET_STEP_RANGE = { min: 0.05, max: 10 };
+export const DOWNSAMPLE_NODES_RANGE = { min: 4, max: 128 };
+
+export interface SegmentationPreset {
+  name: string;
+  description: string;
+  params: SegmentationParams;
+}
+
+export const BUILTIN_PRESETS: SegmentationPreset[] = [
+  {
+    name: "Quick",
+    description: "Coarse sampling, no embeddings — fastest look at the structure",
+    params: { target_step: 2.0, downsample_nodes: 8, embed: false },
+  },
+  { name: "Default", description: "Balanced for most meshes", params: DEFAULT_SEGMENTATION_PARAMS },
+  {
+    name: "Fine",
+    description: "Dense sampling for small features and tight bends — slower",
+    params: { target_step: 0.5, downsample_nodes: 32, embed: true },
+  },
+];
+
+/** Form values are strings until validated */
+export interface SegmentationDraft {
+  target_step: string;
+  downsample_nodes: string;
+  embed: boolean;
+}
+
+export function toDraft(params: SegmentationParams): SegmentationDraft {
+  return { target_step: String(params.target_step), downsample_nodes: String(params.downsample_nodes), embed: params.embed };
+}
+
+/** Parse a draft — returns the params, or an error message per invalid field */
+export function validateDraft(
+  draft: SegmentationDraft,
+): { params: SegmentationParams; errors: null } | { params: null; errors: Partial<Record<keyof SegmentationDraft, string>> } {
+  const errors: Partial<Record<keyof SegmentationDraft, string>> = {};
+
+  const step = Number(draft.target_step);
+  if (draft.target_step.trim() === "" || !Number.isFinite(step)) {
+    errors.target_step = "Enter a number";
+  } else if (step < TARGET_STEP_RANGE.min || step > TARGET_STEP_RANGE.max) {
+    errors.target_step = `Must be between ${TARGET_STEP_RANGE.min} and ${TARGET_STEP_RANGE.max}`;
+  }
+
+  const nodes = Number(draft.downsample_nodes);
+  if (draft.downsample_nodes.trim() === "" || !Number.isInteger(nodes)) {
+    errors.downsample_nodes = "Enter a whole number";
+  } else if (nodes < DOWNSAMPLE_NODES_RANGE.min || nodes > DOWNSAMPLE_NODES_RANGE.max) {
+    errors.downsample_nodes = `Must be between ${DOWNSAMPLE_NODES_RANGE.min} and ${DOWNSAMPLE_NODES_RANGE.max}`;
+  }
+
+  if (Object.keys(errors).length) return { params: null, errors };
+  return { params: { target_step: step, downsample_nodes: nodes, embed: draft.embed }, errors: null };
+}
+
+export function sameParams(a: SegmentationParams, b: SegmentationParams): boolean {
+  return a.target_step === b.target_step && a.downsample_nodes === b.downsample_nodes && a.embed === b.embed;
+}
+
+/* ── Per-mesh presets (client-side, like session formats) ── */
+
+const STORAGE_KEY = "segmentationPresets";
+
+function readStored(): Record<string, SegmentationParams> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** The parameters saved for a session's mesh, if any */
+export function loadMeshPreset(sessionId: string): SegmentationParams | null {
+  const stored = readStored()[sessionId];
+  if (!stored) return null;
+  const checked = validateDraft(toDraft({ ...DEFAULT_SEGMENTATION_PARAMS, ...stored }));
+  return checked.params;
+}
+
+export function saveMeshPreset(sessionId: string, params: SegmentationParams) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readStored(), [sessionId]: params }));
+}
+
+export function clearMeshPreset(sessionId: string) {
+  const stored = readStored();
+  delete stored[sessionId];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
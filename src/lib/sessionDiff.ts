@@ -0,0 +1,125 @@
+import type { Segment, SegmentResult } from "./api";
+
+/* ── Comparing two segmentations (e.g. revisions of the same design) ── */
+
+export interface TypeDiff {
+  type: string;
+  countA: number;
+  countB: number;
+  lengthA: number;
+  lengthB: number;
+}
+
+export interface SegmentMatch {
+  a: Segment;
+  b: Segment;
+  /** Distance between the segments' centroids */
+  distance: number;
+}
+
+export interface SegmentationDiff {
+  types: TypeDiff[];
+  totalLengthA: number;
+  totalLengthB: number;
+  /** Closest pairs first */
+  matches: SegmentMatch[];
+  onlyA: Segment[];
+  onlyB: Segment[];
+  /** Centroids further apart than this never pair up */
+  matchTolerance: number;
+}
+
+/** Centroids within this fraction of the combined bounding-box diagonal can pair */
+const MATCH_TOLERANCE_RATIO = 0.05;
+
+type Vec3 = [number, number, number];
+
+function centroid(seg: Segment): Vec3 | null {
+  const nodes = seg.downsampled_nodes;
+  if (!nodes?.length) return null;
+  const c: Vec3 = [0, 0, 0];
+  for (const n of nodes) {
+    c[0] += n[0];
+    c[1] += n[1];
+    c[2] += n[2];
+  }
+  return [c[0] / nodes.length, c[1] / nodes.length, c[2] / nodes.length];
+}
+
+function diagonal(points: Vec3[]): number {
+  if (!points.length) return 0;
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (const p of points) {
+    for (let i = 0; i < 3; i++) {
+      min[i] = Math.min(min[i], p[i]);
+      max[i] = Math.max(max[i], p[i]);
+    }
+  }
+  return Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]);
+}
+
+function lengthByType(segments: Segment[]): Map<string, number> {
+  const out = new Map<string, number>();
+  for (const seg of segments) out.set(seg.type, (out.get(seg.type) ?? 0) + (seg.length || 0));
+  return out;
+}
+
+/**
+ * Pair segments of two results by centroid proximity — greedily, closest pair first,
+ * each segment used at most once. Types may differ within a pair (that's a change worth seeing).
+ */
+function matchSegments(a: Segment[], b: Segment[]): Pick<SegmentationDiff, "matches" | "onlyA" | "onlyB" | "matchTolerance"> {
+  const ca = a.map(centroid);
+  const cb = b.map(centroid);
+  const tolerance = diagonal([...ca, ...cb].filter((c): c is Vec3 => !!c)) * MATCH_TOLERANCE_RATIO;
+
+  const candidates: { i: number; j: number; distance: number }[] = [];
+  ca.forEach((p, i) => {
+    if (!p) return;
+    cb.forEach((q, j) => {
+      if (!q) return;
+      const distance = Math.hypot(p[0] - q[0], p[1] - q[1], p[2] - q[2]);
+      if (distance <= tolerance) candidates.push({ i, j, distance });
+    });
+  });
+  candidates.sort((x, y) => x.distance - y.distance);
+
+  const usedA = new Set<number>();
+  const usedB = new Set<number>();
+  const matches: SegmentMatch[] = [];
+  for (const { i, j, distance } of candidates) {
+    if (usedA.has(i) || usedB.has(j)) continue;
+    usedA.add(i);
+    usedB.add(j);
+    matches.push({ a: a[i], b: b[j], distance });
+  }
+
+  return {
+    matches,
+    onlyA: a.filter((_, i) => !usedA.has(i)),
+    onlyB: b.filter((_, j) => !usedB.has(j)),
+    matchTolerance: tolerance,
+  };
+}
+
+export function diffSegmentations(a: SegmentResult, b: SegmentResult): SegmentationDiff {
+  const lengthsA = lengthByType(a.segments);
+  const lengthsB = lengthByType(b.segments);
+  const countsA = a.summary.counts_by_type;
+  const countsB = b.summary.counts_by_type;
+  const typeNames = [...new Set([...Object.keys(countsA), ...Object.keys(countsB), ...lengthsA.keys(), ...lengthsB.keys()])].sort();
+
+  return {
+    types: typeNames.map((type) => ({
+      type,
+      countA: countsA[type] ?? 0,
+      countB: countsB[type] ?? 0,
+      lengthA: lengthsA.get(type) ?? 0,
+      lengthB: lengthsB.get(type) ?? 0,
+    })),
+    totalLengthA: [...lengthsA.values()].reduce((sum, l) => sum + l, 0),
+    totalLengthB: [...lengthsB.values()].reduce((sum, l) => sum + l, 0),
+    ...matchSegments(a.segments, b.segments),
+  };
+}
@@ -0,0 +1,179 @@
+import {
+  getChatHistory,
+  searchSessions,
+  sessionDisplayName,
+  type ChatHistoryMessage,
+  type SessionInfo,
+  type SessionSearchHit,
+} from "./api";
+import { isAbortError } from "./abort";
+
+/* ── Sorting ── */
+
+export type SessionSort = "newest" | "oldest" | "segments";
+
+export const SESSION_SORTS: { value: SessionSort; label: string }[] = [
+  { value: "newest", label: "Newest" },
+  { value: "oldest", label: "Oldest" },
+  { value: "segments", label: "Most segments" },
+];
+
+function createdTime(s: SessionInfo): number | null {
+  const t = s.created_at ? Date.parse(s.created_at) : NaN;
+  return Number.isNaN(t) ? null : t;
+}
+
+/** Sessions without a timestamp (or segment count) sort last, in their original order */
+export function sortSessions(sessions: SessionInfo[], sort: SessionSort): SessionInfo[] {
+  const key = (s: SessionInfo) => (sort === "segments" ? (s.segment_count ?? null) : createdTime(s));
+  const direction = sort === "oldest" ? 1 : -1;
+  return [...sessions].sort((a, b) => {
+    const ka = key(a);
+    const kb = key(b);
+    if (ka === null || kb === null) return ka === kb ? 0 : ka === null ? 1 : -1;
+    return (ka - kb) * direction;
+  });
+}
+
+/* ── Grouping ── */
+
+export interface SessionGroup {
+  label: string;
+  sessions: SessionInfo[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayLabel(time: number | null, now: Date): string {
+  if (time === null) return "Undated";
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  if (time >= startOfToday) return "Today";
+  if (time >= startOfToday - DAY_MS) return "Yesterday";
+  if (time >= startOfToday - 7 * DAY_MS) return "Last week";
+  if (time >= startOfToday - 30 * DAY_MS) return "Last month";
+  return "Older";
+}
+
+/**
+ * Pinned sessions first, then — when sorted by date — one group per day bucket ("Today", "Last week", …).
+ * Sorting by segment count keeps a single group; day buckets would scatter it.
+ */
+export function groupSessions(sessions: SessionInfo[], sort: SessionSort, pinned: string[], now = new Date()): SessionGroup[] {
+  const pins = new Set(pinned);
+  const groups: SessionGroup[] = [];
+  const pinnedSessions = sessions.filter((s) => pins.has(s.session_id));
+  if (pinnedSessions.length) groups.push({ label: "Pinned", sessions: pinnedSessions });
+
+  const rest = sessions.filter((s) => !pins.has(s.session_id));
+  if (sort === "segments") {
+    if (rest.length) groups.push({ label: pinnedSessions.length ? "All sessions" : "", sessions: rest });
+    return groups;
+  }
+  for (const s of rest) {
+    const label = dayLabel(createdTime(s), now);
+    const last = groups[groups.length - 1];
+    if (last && last.label === label) last.sessions.push(s);
+    else groups.push({ label, sessions: [s] });
+  }
+  return groups;
+}
+
+/* ── Pins (favourites) — per browser ── */
+
+const PINS_KEY = "pinnedSessions";
+
+export function loadPins(): string[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PINS_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePins(pins: string[]) {
+  localStorage.setItem(PINS_KEY, JSON.stringify(pins));
+}
+
+/* ── Search ── */
+
+/** Chat histories fetched for client-side search, per uid/session — kept for the page's lifetime */
+const chatCache = new Map<string, ChatHistoryMessage[]>();
+const cacheKey = (uid: string, sessionId: string) => `${uid}/${sessionId}`;
+
+/** Seed the cache with a history the dashboard already loaded */
+export function cacheChatHistory(uid: string, sessionId: string, messages: ChatHistoryMessage[]) {
+  chatCache.set(cacheKey(uid, sessionId), messages);
+}
+
+async function cachedChat(uid: string, sessionId: string): Promise<ChatHistoryMessage[]> {
+  const key = cacheKey(uid, sessionId);
+  const cached = chatCache.get(key);
+  if (cached) return cached;
+  const messages = await getChatHistory(uid, sessionId).catch(() => []);
+  chatCache.set(key, messages);
+  return messages;
+}
+
+/** Chats fetched at once while filling the cache */
+const FETCH_CONCURRENCY = 4;
+
+const SNIPPET_RADIUS = 40;
+
+function snippetAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  const excerpt = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${excerpt}${end < text.length ? "…" : ""}`;
+}
+
+function matchLocally(session: SessionInfo, chat: ChatHistoryMessage[], needle: string): SessionSearchHit | null {
+  for (const field of [sessionDisplayName(session), session.file_name ?? ""]) {
+    if (field.toLowerCase().includes(needle)) return { session_id: session.session_id };
+  }
+  for (const msg of chat) {
+    const index = msg.content.toLowerCase().indexOf(needle);
+    if (index >= 0) return { session_id: session.session_id, snippet: snippetAround(msg.content, index, needle.length) };
+  }
+  return null;
+}
+
+/** Client-side search — names first, then chat content from the cache (filled on demand) */
+async function searchLocally(uid: string, sessions: SessionInfo[], query: string, signal?: AbortSignal): Promise<SessionSearchHit[]> {
+  const needle = query.toLowerCase();
+  const hits = new Map<string, SessionSearchHit>();
+  const queue = [...sessions];
+
+  async function worker() {
+    for (let s = queue.shift(); s; s = queue.shift()) {
+      if (signal?.aborted) return;
+      const byName = matchLocally(s, [], needle);
+      const hit = byName ?? matchLocally(s, await cachedChat(uid, s.session_id), needle);
+      if (hit) hits.set(s.session_id, hit);
+    }
+  }
+  await Promise.all(Array.from({ length: FETCH_CONCURRENCY }, worker));
+  signal?.throwIfAborted();
+  // Keep the caller's order
+  return sessions.flatMap((s) => hits.get(s.session_id) ?? []);
+}
+
+/**
+ * Find sessions matching `query` by name, file name or chat content.
+ * Uses the backend's search when it has one, otherwise searches cached chat histories here.
+ */
+export async function findSessions(uid: string, sessions: SessionInfo[], query: string, signal?: AbortSignal): Promise<SessionSearchHit[]> {
+  try {
+    const remote = await searchSessions(uid, query, signal);
+    if (remote) {
+      // The backend doesn't know names kept only in this browser — add those matches
+      const local = sessions.flatMap((s) => matchLocally(s, [], query.toLowerCase()) ?? []);
+      const seen = new Set(remote.map((h) => h.session_id));
+      return [...remote, ...local.filter((h) => !seen.has(h.session_id))];
+    }
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    console.warn("[Search] backend search failed, searching locally:", err);
+  }
+  return searchLocally(uid, sessions, query, signal);
+}
@@ -0,0 +1,583 @@
+import {
+  getWsUrl,
+  getChatHistory,
+  getSegments,
+  getPackedSurfaceMesh,
+  type WsIncoming,
+  type WsOutgoing,
+  type SegmentResult,
+  type QueryResult,
+  type QueryContext,
+  type ToolCall,
+  type ChatHistoryMessage,
+} from "./api";
+import type { PackedSurfaceMesh } from "./meshBuffer";
+import { abortError } from "./abort";
+import { parseWsIncoming, parseSegmentResult, parseQueryResult, type QueryResultPayload } from "./schema";
+
+/* ── Public types ── */
+
+export interface ProgressEntry {
+  /** Request the step belongs to — matched to the oldest pending request when the server doesn't echo ids */
+  request_id: string;
+  step: string;
+  detail: Record<string, unknown>;
+  explanation?: string;
+  timestamp: number;
+}
+
+export interface LiveToolCall extends ToolCall {
+  call_id: string;
+  status: "running" | "done" | "failed";
+  error?: string;
+}
+
+/** An answer still arriving over the socket — one per pending query, replaced by its final result */
+export interface LiveAnswer {
+  request_id: string;
+  query: string;
+  text: string;
+  toolCalls: LiveToolCall[];
+  /** "interrupted" when the socket went away mid-answer; the partial text is kept for display */
+  status: "streaming" | "interrupted";
+}
+
+export type RequestKind = "segment" | "query";
+
+export type RequestOutcome = "done" | "failed" | "cancelled";
+
+export type ShapeClientEvent =
+  | { type: "status"; status: "connecting" | "reconnecting"; attempt: number }
+  /** `replayed` lists the kinds of requests re-sent after a reconnect */
+  | { type: "status"; status: "open"; reconnected: boolean; replayed: RequestKind[] }
+  /** The server's session hello */
+  | { type: "status"; status: "ready" }
+  | { type: "status"; status: "closed" }
+  /** A segmentation or query was sent (or queued until the socket opens) */
+  | { type: "request"; request_id: string; kind: RequestKind; query?: string }
+  | { type: "settled"; request_id: string; outcome: RequestOutcome; error?: string }
+  | { type: "progress"; entry: ProgressEntry }
+  | { type: "live"; answers: LiveAnswer[] }
+  /** Connection-level failures — request errors reject their own promise instead */
+  | { type: "error"; message: string }
+  /** The server sent something this client can't read — the affected request rejects too */
+  | { type: "incompatible"; message: string };
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  onProgress?: (entry: ProgressEntry) => void;
+}
+
+export interface SegmentOptions {
+  target_step?: number;
+  downsample_nodes?: number;
+  embed?: boolean;
+}
+
+export interface QueryOptions extends RequestOptions {
+  /** Which segments/view the question is about */
+  context?: QueryContext;
+  /** Called each time the streamed answer grows */
+  onAnswer?: (answer: LiveAnswer) => void;
+}
+
+export interface ShapeClientOptions {
+  /** WebSocket implementation — defaults to the global one (browsers, Node 22+) */
+  WebSocket?: typeof WebSocket;
+}
+
+/* ── Reconnection ── */
+
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 30_000;
+const MAX_RECONNECT_ATTEMPTS = 12;
+
+/** Exponential backoff with jitter — spreads out clients that dropped together */
+function reconnectDelay(attempt: number): number {
+  const ceiling = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+/** Client request id — echoed by the server on everything it sends for the request */
+function newRequestId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+type RequestPayload = Exclude<WsOutgoing, { type: "cancel" }>;
+
+interface PendingRequest {
+  kind: RequestKind;
+  /** Kept for replay after a reconnect */
+  payload: RequestPayload;
+  options: QueryOptions;
+  resolve: (result: SegmentResult | QueryResult) => void;
+  reject: (err: Error) => void;
+  detachSignal: () => void;
+}
+
+/**
+ * One session's connection to the shape backend: segmentation and queries over the
+ * WebSocket as awaitable requests, plus the session's REST calls. Reconnects with
+ * backoff and replays in-flight requests under their original request_id.
+ * Framework-independent — `useShapeSocket` adapts it to React state.
+ */
+export class ShapeClient {
+  readonly uid: string;
+  readonly sessionId: string;
+
+  private readonly WebSocketImpl: typeof WebSocket;
+  private ws: WebSocket | null = null;
+  private closed = false;
+  private everOpened = false;
+  /** Set once the client gives up (auth rejected, reconnects used up) — requests fail fast with it */
+  private failure: string | null = null;
+  private opened: { resolve: () => void; reject: (err: Error) => void } | null = null;
+
+  private readonly pending = new Map<string, PendingRequest>();
+  private liveAnswers: LiveAnswer[] = [];
+  private readonly listeners = new Set<(event: ShapeClientEvent) => void>();
+
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly onOnline = () => {
+    // Coming back online (e.g. after laptop sleep) — don't wait out the backoff
+    if (this.reconnectTimer) this.retryNow();
+  };
+
+  constructor(uid: string, sessionId: string, options: ShapeClientOptions = {}) {
+    this.uid = uid;
+    this.sessionId = sessionId;
+    this.WebSocketImpl = options.WebSocket ?? globalThis.WebSocket;
+  }
+
+  /* ── Lifecycle ── */
+
+  /** Open the socket — resolves once it is open; rejects if the client gives up or is closed first */
+  connect(): Promise<void> {
+    if (this.failure) return Promise.reject(new Error(this.failure));
+    if (this.everOpened) return Promise.resolve();
+    const promise = new Promise<void>((resolve, reject) => {
+      this.opened = { resolve, reject };
+    });
+    if (!this.ws && !this.reconnectTimer) {
+      if (typeof window !== "undefined") window.addEventListener("online", this.onOnline);
+      this.open();
+    }
+    return promise;
+  }
+
+  /** Close for good — pending requests reject with an AbortError */
+  close(reason = "Disconnected") {
+    if (this.closed) return;
+    this.closed = true;
+    console.log("[ShapeClient] close():", reason);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    if (typeof window !== "undefined") window.removeEventListener("online", this.onOnline);
+
+    const ws = this.ws;
+    this.ws = null;
+    ws?.close();
+    this.opened?.reject(abortError(reason));
+    this.opened = null;
+    this.abandonPending(reason, false);
+    this.emit({ type: "status", status: "closed" });
+  }
+
+  get isOpen(): boolean {
+    return this.ws?.readyState === this.WebSocketImpl.OPEN;
+  }
+
+  /** Why the client gave up — null while it can still take requests */
+  get failureMessage(): string | null {
+    return this.failure;
+  }
+
+  hasPending(kind?: RequestKind): boolean {
+    for (const p of this.pending.values()) if (!kind || p.kind === kind) return true;
+    return false;
+  }
+
+  /** Listen to connection status, progress and streaming answers — returns an unsubscribe function */
+  subscribe(listener: (event: ShapeClientEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /* ── Requests ── */
+
+  /** Run segmentation on the session's mesh */
+  segment(opts: SegmentOptions = {}, options: RequestOptions = {}): Promise<SegmentResult> {
+    return this.request<SegmentResult>({
+      type: "upload_and_segment",
+      request_id: newRequestId(),
+      target_step: opts.target_step ?? 1.0,
+      downsample_nodes: opts.downsample_nodes ?? 16,
+      embed: opts.embed ?? true,
+    }, options);
+  }
+
+  /** Ask a question — several may be in flight at once */
+  query(query: string, options: QueryOptions = {}): Promise<QueryResult> {
+    // Checked before the live answer is added — nothing would ever clear it
+    const refused = this.refusal();
+    if (refused) return Promise.reject(refused);
+    const request_id = newRequestId();
+    const { context } = options;
+    // A new question retires answers that were cut off earlier
+    this.setLiveAnswers([
+      ...this.liveAnswers.filter((a) => a.status === "streaming"),
+      { request_id, query, text: "", toolCalls: [], status: "streaming" },
+    ]);
+    return this.request<QueryResult>(
+      context ? { type: "query", request_id, query, context } : { type: "query", request_id, query },
+      options,
+    );
+  }
+
+  /**
+   * Stop one request, or every pending one. The request rejects with an AbortError
+   * and anything the server still sends for it is dropped.
+   */
+  cancel(requestId?: string) {
+    const ids = requestId ? [requestId] : [...this.pending.keys()];
+    for (const id of ids) {
+      if (!this.pending.has(id)) continue;
+      console.log("[ShapeClient] ✋ cancelling request:", id);
+      this.settle(id, (p) => p.reject(abortError("Cancelled")), "cancelled");
+      // Never sent if the socket is down — and it won't be replayed now
+      if (this.isOpen) this.send({ type: "cancel", request_id: id });
+    }
+  }
+
+  /* ── REST ── */
+
+  segments(): Promise<SegmentResult | null> {
+    return getSegments(this.uid, this.sessionId);
+  }
+
+  chatHistory(): Promise<ChatHistoryMessage[]> {
+    return getChatHistory(this.uid, this.sessionId);
+  }
+
+  surfaceMesh(signal?: AbortSignal): Promise<PackedSurfaceMesh> {
+    return getPackedSurfaceMesh(this.uid, this.sessionId, signal);
+  }
+
+  /* ── Internals ── */
+
+  private emit(event: ShapeClientEvent) {
+    for (const listener of this.listeners) listener(event);
+  }
+
+  private setLiveAnswers(answers: LiveAnswer[]) {
+    this.liveAnswers = answers;
+    this.emit({ type: "live", answers });
+  }
+
+  private updateLiveAnswer(requestId: string, update: (prev: LiveAnswer) => LiveAnswer) {
+    let updated: LiveAnswer | undefined;
+    this.setLiveAnswers(this.liveAnswers.map((a) => (a.request_id === requestId ? (updated = update(a)) : a)));
+    if (updated) this.pending.get(requestId)?.options.onAnswer?.(updated);
+  }
+
+  /** Error for a request made after close() or after the client gave up */
+  private refusal(): Error | null {
+    if (this.closed) return abortError("Client is closed");
+    if (this.failure) return new Error(this.failure);
+    return null;
+  }
+
+  private request<T extends SegmentResult | QueryResult>(payload: RequestPayload, options: QueryOptions): Promise<T> {
+    const id = payload.request_id;
+    const refused = this.refusal();
+    if (refused) return Promise.reject(refused);
+    if (options.signal?.aborted) {
+      this.setLiveAnswers(this.liveAnswers.filter((a) => a.request_id !== id));
+      return Promise.reject(abortError());
+    }
+
+    const promise = new Promise<T>((resolve, reject) => {
+      const onAbort = () => this.cancel(id);
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+      this.pending.set(id, {
+        kind: payload.type === "query" ? "query" : "segment",
+        payload,
+        options,
+        resolve: (result) => resolve(result as T),
+        reject,
+        detachSignal: () => options.signal?.removeEventListener("abort", onAbort),
+      });
+    });
+    promise.catch(() => {}); // fire-and-forget callers shouldn't trip unhandled-rejection reporting
+    this.emit({
+      type: "request",
+      request_id: id,
+      kind: payload.type === "query" ? "query" : "segment",
+      query: payload.type === "query" ? payload.query : undefined,
+    });
+    this.send(payload);
+    return promise;
+  }
+
+  /** Remove a pending request (and its live answer) and settle it — no-op if it's already gone */
+  private settle(requestId: string, fn: (p: PendingRequest) => void, outcome: RequestOutcome = "done", error?: string) {
+    const p = this.pending.get(requestId);
+    if (!p) return;
+    this.pending.delete(requestId);
+    p.detachSignal();
+    if (this.liveAnswers.some((a) => a.request_id === requestId)) {
+      this.setLiveAnswers(this.liveAnswers.filter((a) => a.request_id !== requestId));
+    }
+    fn(p);
+    this.emit({ type: "settled", request_id: requestId, outcome, error });
+  }
+
+  /** Abort every pending request; optionally keep partial answers visible, marked interrupted */
+  private abandonPending(reason: string, keepPartial: boolean) {
+    const pending = [...this.pending.entries()];
+    this.pending.clear();
+    for (const [id, p] of pending) {
+      p.detachSignal();
+      p.reject(abortError(reason));
+      // Partial answers are kept when the connection failed — a deliberate close just cancels
+      this.emit({ type: "settled", request_id: id, outcome: keepPartial ? "failed" : "cancelled", error: reason });
+    }
+    this.setLiveAnswers(
+      keepPartial ? this.liveAnswers.filter((a) => a.text).map((a) => ({ ...a, status: "interrupted" as const })) : [],
+    );
+  }
+
+  /** Send now if the socket is open; otherwise it goes out when the socket (re)opens */
+  private send(payload: WsOutgoing) {
+    if (this.ws && this.isOpen) {
+      console.log("[ShapeClient] 📤 sending:", payload);
+      this.ws.send(JSON.stringify(payload));
+    } else {
+      console.log("[ShapeClient] ⏸ queued until connected:", payload);
+    }
+  }
+
+  /**
+   * The pending request a server message belongs to: by echoed request_id, or — for
+   * servers that don't echo ids — the oldest pending request of the expected kind.
+   * Null for ids no longer tracked (cancelled or settled), so late messages get dropped.
+   */
+  private route(requestId: string | undefined, kind?: RequestKind): string | null {
+    if (requestId) return this.pending.has(requestId) ? requestId : null;
+    for (const [id, p] of this.pending) if (!kind || p.kind === kind) return id;
+    return null;
+  }
+
+  private open() {
+    const url = getWsUrl(this.uid, this.sessionId);
+    console.log("[ShapeClient] connecting to:", url);
+    this.emit({ type: "status", status: "connecting", attempt: this.reconnectAttempt });
+    const ws = new this.WebSocketImpl(url);
+    this.ws = ws;
+
+    ws.onopen = () => {
+      if (this.ws !== ws) return;
+      console.log("[ShapeClient] ✅ connection established");
+      const reconnected = this.reconnectAttempt > 0;
+      this.reconnectAttempt = 0;
+      this.everOpened = true;
+      this.opened?.resolve();
+      this.opened = null;
+
+      // Re-send under the same request_ids — the backend resumes or dedupes instead of
+      // starting over; answers stream again from the start
+      const pending = [...this.pending.values()];
+      if (reconnected && pending.length) {
+        this.setLiveAnswers(this.liveAnswers.map((a) => ({ ...a, text: "", toolCalls: [] })));
+      }
+      this.emit({ type: "status", status: "open", reconnected, replayed: reconnected ? pending.map((p) => p.kind) : [] });
+      for (const p of pending) this.send(p.payload);
+    };
+
+    ws.onmessage = (event) => {
+      if (this.ws !== ws) return; // replaced connection — drop its stragglers
+      let raw: unknown;
+      try {
+        raw = JSON.parse(event.data);
+      } catch (e) {
+        console.error("[ShapeClient] ❌ failed to parse message:", e);
+        return;
+      }
+      let msg: WsIncoming | null;
+      try {
+        msg = parseWsIncoming(raw);
+      } catch (err) {
+        const requestId = (raw as { request_id?: unknown } | null)?.request_id;
+        this.reportIncompatible(err as Error, typeof requestId === "string" ? requestId : undefined);
+        return;
+      }
+      if (!msg) {
+        console.warn("[ShapeClient] ⚠️ unknown message type:", raw);
+        return;
+      }
+      console.log("[ShapeClient] 📩", msg.type, msg);
+      this.handleMessage(msg);
+    };
+
+    ws.onclose = (event) => {
+      console.log("[ShapeClient] 🔌 onclose — code:", event.code, "reason:", event.reason, "wasClean:", event.wasClean);
+      if (this.ws !== ws) return; // closed on purpose
+      this.ws = null;
+      if (event.code === 4001) {
+        this.fail("Authentication failed. Please sign in again.");
+        return;
+      }
+      if (this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+        console.error("[ShapeClient] ❌ giving up after", this.reconnectAttempt, "reconnect attempts");
+        this.fail("WebSocket connection failed.");
+        return;
+      }
+
+      const delay = reconnectDelay(this.reconnectAttempt);
+      this.reconnectAttempt += 1;
+      console.log(`[ShapeClient] 🔁 reconnect attempt ${this.reconnectAttempt} in ${Math.round(delay)}ms`);
+      this.emit({ type: "status", status: "reconnecting", attempt: this.reconnectAttempt });
+      this.reconnectTimer = setTimeout(() => this.retryNow(), delay);
+    };
+
+    ws.onerror = (event) => {
+      // onclose follows and decides whether to retry
+      if (this.ws === ws) console.error("[ShapeClient] ❌ onerror:", event);
+    };
+  }
+
+  private retryNow() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    if (!this.closed) this.open();
+  }
+
+  /** Unrecoverable connection failure — keep partial answers, report, stop. Later requests reject with `message`. */
+  private fail(message: string) {
+    this.failure = message;
+    this.reconnectAttempt = 0;
+    if (typeof window !== "undefined") window.removeEventListener("online", this.onOnline);
+    this.abandonPending(message, true);
+    this.opened?.reject(new Error(message));
+    this.opened = null;
+    this.emit({ type: "status", status: "closed" });
+    this.emit({ type: "error", message });
+  }
+
+  /** Reject the request a malformed message belongs to (if known) and report the mismatch */
+  private reportIncompatible(err: Error, requestId?: string) {
+    console.error("[ShapeClient] ❌", err.message);
+    const id = requestId ? this.route(requestId) : null;
+    if (id) this.settle(id, (p) => p.reject(err), "failed", err.message);
+    this.emit({ type: "incompatible", message: err.message });
+  }
+
+  private handleMessage(msg: WsIncoming) {
+    switch (msg.type) {
+      case "connected":
+        this.emit({ type: "status", status: "ready" });
+        break;
+
+      case "progress": {
+        const id = this.route(msg.request_id);
+        if (!id) break; // late step of a cancelled or settled request
+        const entry: ProgressEntry = {
+          request_id: id,
+          step: msg.step,
+          detail: msg.detail,
+          explanation: msg.explanation,
+          timestamp: Date.now(),
+        };
+        this.pending.get(id)?.options.onProgress?.(entry);
+        this.emit({ type: "progress", entry });
+        break;
+      }
+
+      case "result": {
+        const data = msg.data;
+        const id = this.route(msg.request_id, msg.request_id ? undefined : "answer" in data ? "query" : "segment");
+        if (!id) {
+          console.warn("[ShapeClient] ⚠️ result for unknown request:", msg.request_id);
+          break;
+        }
+        const live = this.liveAnswers.find((a) => a.request_id === id);
+        const kind = this.pending.get(id)?.kind;
+        let parsed;
+        try {
+          parsed = kind === "segment" ? parseSegmentResult(data, "WS segment result") : parseQueryResult(data, "WS query result");
+        } catch (err) {
+          this.reportIncompatible(err as Error, id);
+          break;
+        }
+        this.settle(id, (p) => {
+          if (p.kind === "segment") {
+            p.resolve(parsed as SegmentResult);
+            return;
+          }
+          // The final result is authoritative; streamed tool calls fill in if it omits them
+          const final = parsed as QueryResultPayload;
+          p.resolve({
+            ...final,
+            query: final.query ?? (p.payload.type === "query" ? p.payload.query : ""),
+            mode: final.mode ?? "",
+            answer: final.answer ?? live?.text ?? "",
+            tool_calls: final.tool_calls?.length
+              ? final.tool_calls
+              : live?.toolCalls.map(({ tool, params, result }) => ({ tool, params, result })) ?? [],
+            highlight_ids: final.highlight_ids ?? [],
+          });
+        });
+        break;
+      }
+
+      case "answer_chunk": {
+        const id = this.route(msg.request_id, "query");
+        if (id) this.updateLiveAnswer(id, (a) => ({ ...a, text: a.text + msg.delta }));
+        break;
+      }
+
+      case "tool_call_start": {
+        const id = this.route(msg.request_id, "query");
+        if (!id) break;
+        this.updateLiveAnswer(id, (a) => ({
+          ...a,
+          toolCalls: [
+            ...a.toolCalls,
+            { call_id: msg.call_id, tool: msg.tool, params: msg.params, result: undefined, status: "running" },
+          ],
+        }));
+        break;
+      }
+
+      case "tool_call_end": {
+        const id = this.route(msg.request_id, "query");
+        if (!id) break;
+        this.updateLiveAnswer(id, (a) => ({
+          ...a,
+          toolCalls: a.toolCalls.map((call) =>
+            call.call_id === msg.call_id
+              ? { ...call, result: msg.result, status: msg.error ? "failed" : "done", error: msg.error }
+              : call,
+          ),
+        }));
+        break;
+      }
+
+      case "error": {
+        console.error("[ShapeClient] ❌ error from server:", msg.message, "request:", msg.request_id);
+        const id = this.route(msg.request_id);
+        if (id) {
+          this.settle(id, (p) => p.reject(new Error(msg.message)), "failed", msg.message);
+        } else if (!msg.request_id) {
+          this.emit({ type: "error", message: msg.message });
+        }
+        break;
+      }
+
+    }
+  }
+}
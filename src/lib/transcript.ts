@@ -0,0 +1,261 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown from "react-markdown";
+import type { QueryContext, SegmentResult, ToolCall } from "./api";
+
+/* ── Chat transcript export — Markdown and self-contained HTML ── */
+
+export interface TranscriptMessage {
+  role: "user" | "assistant" | "system";
+  text: string;
+  context?: QueryContext;
+  toolCalls?: ToolCall[];
+  /** Segments the answer highlighted */
+  highlightIds?: number[];
+}
+
+export interface Transcript {
+  title: string;
+  sessionId: string;
+  exportedAt: Date;
+  messages: TranscriptMessage[];
+  result: SegmentResult | null;
+  /** Viewer snapshots as PNG data URLs, by message index */
+  snapshots: Map<number, string>;
+}
+
+export type TranscriptFormat = "md" | "html";
+
+/** Longer tool results are cut off — the transcript is for reading, the JSON export has everything */
+const MAX_TABLE_ROWS = 100;
+
+const ROLE_LABELS: Record<TranscriptMessage["role"], string> = { user: "You", assistant: "Assistant", system: "System" };
+
+/* ── Shared helpers ── */
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isRecordArray(value: unknown): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isRecord);
+}
+
+function cellText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "number") return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(4)));
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function tableColumns(rows: Record<string, unknown>[]): string[] {
+  return [...new Set(rows.flatMap((row) => Object.keys(row)))];
+}
+
+function idList(ids: number[]): string {
+  return ids.map((id) => `#${id}`).join(", ");
+}
+
+function describeContext(context: QueryContext | undefined): string | null {
+  if (!context) return null;
+  const parts: string[] = [];
+  if (context.selected_ids?.length) parts.push(`selected ${idList(context.selected_ids)}`);
+  if (context.visible_types) parts.push(`showing ${context.visible_types.join(", ") || "no types"}`);
+  return parts.length ? parts.join(" · ") : null;
+}
+
+interface SummaryRow {
+  type: string;
+  count: number;
+  length: number;
+}
+
+function summaryRows(result: SegmentResult): SummaryRow[] {
+  const lengths = new Map<string, number>();
+  for (const seg of result.segments) lengths.set(seg.type, (lengths.get(seg.type) ?? 0) + seg.length);
+  return Object.entries(result.summary.counts_by_type).map(([type, count]) => ({ type, count, length: lengths.get(type) ?? 0 }));
+}
+
+function segmentCount(result: SegmentResult): string {
+  const n = result.summary.total_segments;
+  return `${n} segment${n === 1 ? "" : "s"}`;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Could not read the snapshot"));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/* ── Markdown ── */
+
+function mdCell(value: unknown): string {
+  return cellText(value).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function mdTable(rows: Record<string, unknown>[]): string {
+  const columns = tableColumns(rows);
+  const lines = [
+    `| ${columns.map(mdCell).join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...rows.slice(0, MAX_TABLE_ROWS).map((row) => `| ${columns.map((col) => mdCell(row[col])).join(" | ")} |`),
+  ];
+  if (rows.length > MAX_TABLE_ROWS) lines.push("", `_… ${rows.length - MAX_TABLE_ROWS} more rows_`);
+  return lines.join("\n");
+}
+
+function mdToolCall(call: ToolCall): string {
+  const params = Object.entries(call.params ?? {}).map(([k, v]) => `${k}: ${JSON.stringify(v)}`).join(", ");
+  const head = `**Tool \`${call.tool}\`**${params ? ` — \`${params.replace(/`/g, "'")}\`` : ""}`;
+  const body = isRecordArray(call.result) ? mdTable(call.result) : "```json\n" + JSON.stringify(call.result ?? null, null, 2) + "\n```";
+  return `${head}\n\n${body}`;
+}
+
+export function transcriptToMarkdown(t: Transcript): string {
+  const out: string[] = [`# ${t.title}`, "", `Session \`${t.sessionId}\` · exported ${formatDate(t.exportedAt)}`, ""];
+
+  if (t.result) {
+    out.push("## Segment summary", "", segmentCount(t.result), "");
+    out.push(mdTable(summaryRows(t.result).map((r) => ({ type: r.type, count: r.count, "total length": r.length }))), "");
+  }
+
+  out.push("## Conversation", "");
+  t.messages.forEach((msg, i) => {
+    if (msg.role === "system") {
+      out.push(`> _${msg.text.replace(/\r?\n/g, " ")}_`, "");
+      return;
+    }
+    out.push(`### ${ROLE_LABELS[msg.role]}`, "");
+    const context = describeContext(msg.context);
+    if (context) out.push(`_${context}_`, "");
+    out.push(msg.text, "");
+    for (const call of msg.toolCalls ?? []) out.push(mdToolCall(call), "");
+    const snapshot = t.snapshots.get(i);
+    if (snapshot && msg.highlightIds) out.push(`![Highlighted ${idList(msg.highlightIds)}](${snapshot})`, "");
+    else if (msg.highlightIds?.length) out.push(`_Highlighted ${idList(msg.highlightIds)}_`, "");
+  });
+
+  return out.join("\n");
+}
+
+/* ── HTML ── */
+
+function esc(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** Same renderer the chat panel uses, so answers read the same */
+function markdownHtml(text: string): string {
+  return renderToStaticMarkup(createElement(ReactMarkdown, null, text));
+}
+
+function htmlTable(rows: Record<string, unknown>[]): string {
+  const columns = tableColumns(rows);
+  const head = columns.map((c) => `<th>${esc(c)}</th>`).join("");
+  const body = rows
+    .slice(0, MAX_TABLE_ROWS)
+    .map((row) => `<tr>${columns.map((col) => `<td>${esc(cellText(row[col]))}</td>`).join("")}</tr>`)
+    .join("\n");
+  const more = rows.length > MAX_TABLE_ROWS ? `<p class="note">… ${rows.length - MAX_TABLE_ROWS} more rows</p>` : "";
+  return `<div class="scroll"><table><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table></div>${more}`;
+}
+
+function htmlToolCall(call: ToolCall): string {
+  const params = Object.entries(call.params ?? {})
+    .map(([k, v]) => `<span class="key">${esc(k)}:</span> ${esc(JSON.stringify(v))}`)
+    .join("<br>");
+  const summary = isRecordArray(call.result) ? `${call.result.length} rows` : Array.isArray(call.result) ? `${call.result.length} items` : "";
+  const result = isRecordArray(call.result)
+    ? htmlTable(call.result)
+    : `<pre>${esc(JSON.stringify(call.result ?? null, null, 2))}</pre>`;
+  return `<details class="tool" open><summary><code>${esc(call.tool)}</code><span class="note">${summary}</span></summary>
+<div class="tool-body"><h4>Params</h4><div class="mono">${params || '<span class="note">none</span>'}</div><h4>Result</h4>${result}</div></details>`;
+}
+
+const HTML_STYLE = `
+body { margin: 0; background: #F7F7F5; color: rgba(0,0,0,.8); font: 14px/1.55 ui-sans-serif, system-ui, sans-serif; }
+main { max-width: 860px; margin: 0 auto; padding: 40px 24px 64px; }
+h1 { font-size: 22px; margin: 0 0 4px; }
+h2 { font-size: 12px; letter-spacing: .06em; text-transform: uppercase; color: rgba(0,0,0,.4); margin: 32px 0 12px; }
+h4 { font-size: 10px; letter-spacing: .06em; text-transform: uppercase; color: rgba(0,0,0,.3); margin: 8px 0 4px; }
+code, pre, .mono { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 12px; }
+pre { background: #FAFAF8; border-radius: 8px; padding: 10px; overflow: auto; max-height: 360px; margin: 0; }
+table { border-collapse: collapse; font-size: 12px; }
+th, td { text-align: left; padding: 4px 10px; border-bottom: 1px solid rgba(0,0,0,.06); white-space: nowrap; }
+th { color: rgba(0,0,0,.4); font-weight: 600; }
+td { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; color: rgba(0,0,0,.65); }
+img { max-width: 100%; border-radius: 10px; border: 1px solid rgba(0,0,0,.08); margin-top: 10px; display: block; }
+.note { color: rgba(0,0,0,.35); font-size: 12px; }
+.key { color: rgba(0,0,0,.4); }
+.scroll { overflow-x: auto; }
+.card { background: #fff; border: 1px solid rgba(0,0,0,.08); border-radius: 14px; padding: 14px 16px; }
+.msg { margin: 12px 0; }
+.msg.user { margin-left: 15%; background: rgba(0,0,0,.8); color: #fff; border-radius: 14px; padding: 10px 14px; }
+.msg.user .note { color: rgba(255,255,255,.55); }
+.msg.assistant { margin-right: 8%; }
+.msg.system { text-align: center; color: rgba(0,0,0,.45); font-size: 12px; font-weight: 500; }
+.role { font-size: 11px; font-weight: 700; letter-spacing: .05em; text-transform: uppercase; color: rgba(0,0,0,.3); margin-bottom: 4px; }
+.msg.user .role { color: rgba(255,255,255,.5); }
+.answer > :first-child { margin-top: 0; } .answer > :last-child { margin-bottom: 0; }
+.tool { border: 1px solid rgba(0,0,0,.08); border-radius: 8px; background: #FAFAF8; margin-top: 10px; }
+.tool summary { cursor: pointer; padding: 6px 10px; display: flex; gap: 8px; align-items: center; }
+.tool summary .note { margin-left: auto; }
+.tool-body { border-top: 1px solid rgba(0,0,0,.06); padding: 4px 10px 10px; }
+`;
+
+export function transcriptToHtml(t: Transcript): string {
+  const parts: string[] = [];
+
+  if (t.result) {
+    const rows = summaryRows(t.result).map((r) => ({ type: r.type, count: r.count, "total length": r.length }));
+    parts.push(
+      `<h2>Segment summary</h2>`,
+      `<div class="card"><p>${segmentCount(t.result)}</p>${rows.length ? htmlTable(rows) : ""}</div>`,
+    );
+  }
+
+  parts.push(`<h2>Conversation</h2>`);
+  t.messages.forEach((msg, i) => {
+    if (msg.role === "system") {
+      parts.push(`<div class="msg system">${esc(msg.text)}</div>`);
+      return;
+    }
+    const context = describeContext(msg.context);
+    const body = msg.role === "user" ? `<div>${esc(msg.text).replace(/\n/g, "<br>")}</div>` : `<div class="answer">${markdownHtml(msg.text)}</div>`;
+    const tools = (msg.toolCalls ?? []).map(htmlToolCall).join("\n");
+    const snapshot = t.snapshots.get(i);
+    const highlights = msg.highlightIds?.length
+      ? snapshot
+        ? `<img src="${snapshot}" alt="Highlighted ${esc(idList(msg.highlightIds))}">`
+        : `<p class="note">Highlighted ${esc(idList(msg.highlightIds))}</p>`
+      : "";
+    parts.push(
+      `<div class="msg ${msg.role}${msg.role === "assistant" ? " card" : ""}"><div class="role">${ROLE_LABELS[msg.role]}</div>` +
+        `${context ? `<p class="note">${esc(context)}</p>` : ""}${body}${tools}${highlights}</div>`,
+    );
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${esc(t.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<main>
+<h1>${esc(t.title)}</h1>
+<p class="note">Session <code>${esc(t.sessionId)}</code> · exported ${esc(formatDate(t.exportedAt))}</p>
+${parts.join("\n")}
+</main>
+</body>
+</html>
+`;
+}
@@ -1,7 +1,12 @@
 "use client";
 
 import { useRef, useState, useCallback, useEffect } from "react";
-import { getWsUrl, type WsIncoming, type SegmentResult, type QueryResult } from "./api";
+import type { SegmentResult, QueryResult, QueryContext } from "./api";
+import { ShapeClient, type ProgressEntry, type LiveAnswer, type SegmentOptions, type ShapeClientEvent } from "./shapeClient";
+import { isAbortError } from "./abort";
+import { loadRuns, saveRuns, startRun, addStep, finishRun, type PipelineRun } from "./pipelineRuns";
+
+export type { ProgressEntry, LiveAnswer, LiveToolCall } from "./shapeClient";
 
 export type PipelinePhase =
   | "idle"
@@ -17,245 +22,305 @@ export type PipelinePhase =
   | "segment_done"
   | "parsing_query"
   | "tool_call"
+  | "answering"
   | "query_done"
+  | "reconnecting"
   | "error";
 
-export interface ProgressEntry {
-  step: string;
-  detail: Record<string, unknown>;
-  explanation?: string;
-  timestamp: number;
+const QUERY_PHASES: PipelinePhase[] = ["parsing_query", "tool_call", "answering"];
+
+/** Phases with nothing running — where a cancelled request returns to */
+const RESTING_PHASES: PipelinePhase[] = ["idle", "connected", "segment_done", "query_done", "error"];
+
+/** Status line for a pipeline step */
+function describeProgress(entry: ProgressEntry): string {
+  const { step, detail, explanation } = entry;
+  if (explanation) return explanation;
+  if (detail.status && typeof detail.status === "string") return detail.status;
+  if (step === "segmented" && detail.total_segments) return `Found ${detail.total_segments} segments`;
+  if (step === "downsampled") return `Downsampled ${detail.segments_processed} segments`;
+  if (step === "embedded") return `Embedded ${detail.segments_embedded} segments`;
+  if (step === "tool_call" && detail.tool) return `Calling ${detail.tool}...`;
+  return step.replace(/_/g, " ");
 }
 
 interface UseShapeSocketReturn {
-  connect: (uid: string, sessionId: string) => void;
+  /** Resolves once the socket is open; rejects if it never opens */
+  connect: (uid: string, sessionId: string) => Promise<void>;
   disconnect: () => void;
-  triggerSegmentation: (opts?: { target_step?: number; downsample_nodes?: number; embed?: boolean }) => void;
-  sendQuery: (query: string) => void;
+  /** The current session's client — null while disconnected */
+  client: ShapeClient | null;
+  /** Resolves with the segments; rejects with the server's error, or an AbortError when the connection goes away */
+  triggerSegmentation: (opts?: SegmentOptions) => Promise<SegmentResult>;
+  /** Optional context tells the assistant which segments/view the question is about. Queries may overlap. */
+  sendQuery: (query: string, context?: QueryContext) => Promise<QueryResult>;
+  /** Stop every running request; their promises reject with an AbortError */
+  cancel: () => void;
+  /** True while a segmentation or query is pending */
+  busy: boolean;
   phase: PipelinePhase;
   setPhase: (p: PipelinePhase) => void;
-  progressLog: ProgressEntry[];
+  /** The session's segmentation and query runs with their progress steps, oldest first — kept across reloads */
+  runs: PipelineRun[];
   progressText: string;
   segmentResult: SegmentResult | null;
   setSegmentResult: (r: SegmentResult | null) => void;
-  queryResult: QueryResult | null;
-  /** Increments each time a new query result arrives — use as effect dependency */
-  queryResultVersion: number;
+  /** Answers being streamed, oldest first */
+  liveAnswers: LiveAnswer[];
+  /** Connection-level errors — request errors reject their own promise instead */
   error: string | null;
+  /** Set when the server sent a message this client can't read */
+  incompatible: string | null;
   isConnected: boolean;
 }
 
+/** React state over a `ShapeClient` — one client per connected session */
 export function useShapeSocket(): UseShapeSocketReturn {
-  const wsRef = useRef<WebSocket | null>(null);
+  const [client, setClient] = useState<ShapeClient | null>(null);
+  const clientRef = useRef<ShapeClient | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
   const [phase, setPhase] = useState<PipelinePhase>("idle");
-  const [progressLog, setProgressLog] = useState<ProgressEntry[]>([]);
+  const [runs, setRuns] = useState<PipelineRun[]>([]);
+  const runsRef = useRef<{ sessionId: string | null; runs: PipelineRun[] }>({ sessionId: null, runs: [] });
   const [progressText, setProgressText] = useState("");
   const [segmentResult, setSegmentResult] = useState<SegmentResult | null>(null);
-  const [queryResult, setQueryResult] = useState<QueryResult | null>(null);
-  const [queryResultVersion, setQueryResultVersion] = useState(0);
+  const [liveAnswers, setLiveAnswers] = useState<LiveAnswer[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [incompatible, setIncompatible] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  // Phase to return to when a reconnect has nothing to replay
+  const phaseRef = useRef<PipelinePhase>("idle");
+  const resumePhaseRef = useRef<PipelinePhase>("idle");
+  // Phase before the running requests started — restored on cancel
+  const restPhaseRef = useRef<PipelinePhase>("idle");
+
+  useEffect(() => {
+    phaseRef.current = phase;
+  }, [phase]);
+
+  const updateRuns = useCallback((update: (prev: PipelineRun[]) => PipelineRun[]) => {
+    const r = runsRef.current;
+    r.runs = update(r.runs);
+    setRuns(r.runs);
+    if (r.sessionId) saveRuns(r.sessionId, r.runs);
+  }, []);
+
+  const handleEvent = useCallback((event: ShapeClientEvent) => {
+    switch (event.type) {
+      case "status":
+        if (event.status === "open") {
+          setIsConnected(true);
+          if (!event.reconnected) break;
+          if (event.replayed.length === 0) {
+            setPhase(resumePhaseRef.current);
+            setProgressText("");
+          } else {
+            setPhase(event.replayed.includes("segment") ? "segmenting" : "parsing_query");
+          }
+        } else if (event.status === "ready") {
+          // If segments were already loaded from REST, phase may be "segment_done" — don't regress
+          setPhase((prev) => (prev === "connecting" || prev === "idle") ? "connected" : prev);
+        } else if (event.status === "reconnecting") {
+          setIsConnected(false);
+          if (phaseRef.current !== "reconnecting") resumePhaseRef.current = phaseRef.current;
+          setPhase("reconnecting");
+          setProgressText(`Connection lost — retrying (attempt ${event.attempt})`);
+        } else if (event.status === "closed") {
+          setIsConnected(false);
+        }
+        break;
 
-  const expectingRef = useRef<"segment" | "query" | null>(null);
+      case "progress":
+        updateRuns((prev) => addStep(prev, event.entry));
+        setPhase(event.entry.step as PipelinePhase);
+        setProgressText(describeProgress(event.entry));
+        break;
+
+      case "request":
+        updateRuns((prev) => startRun(prev, { request_id: event.request_id, kind: event.kind, query: event.query }));
+        break;
+
+      case "settled":
+        updateRuns((prev) => finishRun(prev, event.request_id, event.outcome, event.error));
+        break;
+
+      case "live":
+        setLiveAnswers(event.answers);
+        break;
+
+      case "error":
+        setError(event.message);
+        setPhase("error");
+        setProgressText("");
+        break;
+
+      case "incompatible":
+        setIncompatible(event.message);
+        break;
+    }
+  }, [updateRuns]);
+
+  /** Close the current client — still subscribed, so its abandoned requests close their runs */
+  const release = useCallback((reason: string) => {
+    clientRef.current?.close(reason);
+    clientRef.current = null;
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+  }, []);
 
   const disconnect = useCallback(() => {
     console.log("[WS] disconnect() called");
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
-    }
+    release("Disconnected");
+    setClient(null);
+    setLiveAnswers([]);
+    setBusy(false);
     setIsConnected(false);
     setPhase("idle");
-  }, []);
+  }, [release]);
 
   const connect = useCallback(
     (uid: string, sessionId: string) => {
-      if (wsRef.current) {
-        console.log("[WS] closing existing connection");
-        wsRef.current.close();
-      }
-
+      release("Switched session");
       setPhase("connecting");
       setError(null);
-      setProgressLog([]);
+      setIncompatible(null);
       setProgressText("");
-      // Note: we do NOT clear segmentResult/queryResult here —
+      setLiveAnswers([]);
+      runsRef.current = { sessionId, runs: loadRuns(sessionId) };
+      setRuns(runsRef.current.runs);
+      setBusy(false);
+      // Note: we do NOT clear segmentResult here —
       // the dashboard manages that when switching sessions.
       // Clearing here would race with async data loading.
 
-      const url = getWsUrl(uid, sessionId);
-      console.log("[WS] connecting to:", url);
-      const ws = new WebSocket(url);
-      wsRef.current = ws;
-
-      ws.onopen = () => {
-        console.log("[WS] ✅ onopen — connection established");
-        setIsConnected(true);
-      };
-
-      ws.onmessage = (event) => {
-        console.log("[WS] 📩 raw message:", event.data);
-
-        let msg: WsIncoming;
-        try {
-          msg = JSON.parse(event.data);
-        } catch (e) {
-          console.error("[WS] ❌ failed to parse message:", e);
-          return;
-        }
-
-        console.log("[WS] 📩 parsed:", msg.type, msg);
-
-        switch (msg.type) {
-          case "connected":
-            console.log("[WS] → phase: connected");
-            // Only move to "connected" if we're still in connecting state.
-            // If segments were already loaded from REST, phase may be "segment_done" — don't regress.
-            setPhase((prev) => (prev === "connecting" || prev === "idle") ? "connected" : prev);
-            break;
-
-          case "progress": {
-            const entry: ProgressEntry = {
-              step: msg.step,
-              detail: msg.detail,
-              explanation: msg.explanation,
-              timestamp: Date.now(),
-            };
-            setProgressLog((prev) => [...prev, entry]);
-            setPhase(msg.step as PipelinePhase);
-            console.log("[WS] → phase:", msg.step, "detail:", msg.detail);
-
-            const detail = msg.detail;
-            if (msg.explanation) {
-              setProgressText(msg.explanation);
-            } else if (detail.status && typeof detail.status === "string") {
-              setProgressText(detail.status);
-            } else if (msg.step === "segmented" && detail.total_segments) {
-              setProgressText(`Found ${detail.total_segments} segments`);
-            } else if (msg.step === "downsampled") {
-              setProgressText(`Downsampled ${detail.segments_processed} segments`);
-            } else if (msg.step === "embedded") {
-              setProgressText(`Embedded ${detail.segments_embedded} segments`);
-            } else if (msg.step === "tool_call" && detail.tool) {
-              setProgressText(`Calling ${detail.tool}...`);
-            } else {
-              setProgressText(msg.step.replace(/_/g, " "));
-            }
-            break;
-          }
-
-          case "result": {
-            const data = msg.data;
-            console.log("[WS] → result received, expecting:", expectingRef.current, "has answer:", "answer" in data);
-            if (expectingRef.current === "query" || "answer" in data) {
-              console.log("[WS] → treating as QUERY result");
-              setQueryResult(data as QueryResult);
-              setQueryResultVersion((v) => v + 1);
-              setPhase("query_done");
-              setProgressText("");
-            } else {
-              console.log("[WS] → treating as SEGMENT result, segments:", (data as SegmentResult).segments?.length);
-              setSegmentResult(data as SegmentResult);
-              setPhase("segment_done");
-              setProgressText("");
-            }
-            expectingRef.current = null;
-            break;
-          }
+      const next = new ShapeClient(uid, sessionId);
+      clientRef.current = next;
+      unsubscribeRef.current = next.subscribe(handleEvent);
+      setClient(next);
+      const opened = next.connect();
+      opened.catch(() => {}); // failures surface through the "error" event
+      return opened;
+    },
+    [release, handleEvent],
+  );
 
-          case "error":
-            console.error("[WS] ❌ error from server:", msg.message);
-            setError(msg.message);
-            setPhase("error");
-            setProgressText("");
-            break;
+  /** Note the phase to return to on cancel, and mark the client busy */
+  const beginRequest = useCallback(() => {
+    if (RESTING_PHASES.includes(phaseRef.current)) restPhaseRef.current = phaseRef.current;
+    setBusy(true);
+  }, []);
 
-          default:
-            console.warn("[WS] ⚠️ unknown message type:", (msg as Record<string, unknown>).type, msg);
-            break;
-        }
-      };
-
-      ws.onclose = (event) => {
-        console.log("[WS] 🔌 onclose — code:", event.code, "reason:", event.reason, "wasClean:", event.wasClean);
-        setIsConnected(false);
-        if (event.code === 4001) {
-          setError("Authentication failed. Please sign in again.");
-          setPhase("error");
-        }
-      };
+  const syncBusy = useCallback((c: ShapeClient) => {
+    if (clientRef.current === c) setBusy(c.hasPending());
+  }, []);
 
-      ws.onerror = (event) => {
-        console.error("[WS] ❌ onerror:", event);
-        setError("WebSocket connection failed.");
-        setPhase("error");
-        setIsConnected(false);
-      };
-    },
-    [],
-  );
+  /** A failed request puts the pipeline in "error" unless others are still running */
+  const settleFailure = useCallback((c: ShapeClient, err: unknown) => {
+    if (clientRef.current !== c || isAbortError(err) || c.hasPending()) return;
+    setPhase("error");
+    setProgressText("");
+  }, []);
 
   const triggerSegmentation = useCallback(
-    (opts?: { target_step?: number; downsample_nodes?: number; embed?: boolean }) => {
-      if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-        console.warn("[WS] triggerSegmentation called but WS not open, readyState:", wsRef.current?.readyState);
-        return;
+    (opts?: SegmentOptions) => {
+      const c = clientRef.current;
+      if (!c) {
+        console.warn("[WS] triggerSegmentation called without a connection");
+        return Promise.reject(new Error("Not connected"));
       }
-      expectingRef.current = "segment";
-      setProgressLog([]);
+      beginRequest();
       setProgressText("Starting segmentation...");
       setPhase("segmenting");
 
-      const payload = {
-        type: "upload_and_segment",
-        target_step: opts?.target_step ?? 1.0,
-        downsample_nodes: opts?.downsample_nodes ?? 16,
-        embed: opts?.embed ?? true,
-      };
-      console.log("[WS] 📤 sending:", payload);
-      wsRef.current.send(JSON.stringify(payload));
+      const promise = c.segment(opts);
+      promise.finally(() => syncBusy(c)).catch(() => {});
+      promise.then(
+        (result) => {
+          if (clientRef.current !== c) return;
+          console.log("[WS] → segments:", result.segments?.length);
+          setSegmentResult(result);
+          setPhase("segment_done");
+          setProgressText("");
+        },
+        (err) => settleFailure(c, err),
+      );
+      return promise;
     },
-    [],
+    [beginRequest, syncBusy, settleFailure],
   );
 
-  const sendQuery = useCallback((query: string) => {
-    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-      console.warn("[WS] sendQuery called but WS not open, readyState:", wsRef.current?.readyState);
-      return;
+  const sendQuery = useCallback((query: string, context?: QueryContext) => {
+    const c = clientRef.current;
+    if (!c) {
+      console.warn("[WS] sendQuery called without a connection");
+      return Promise.reject(new Error("Not connected"));
     }
-    expectingRef.current = "query";
+    // The client gave up — keep the error phase rather than showing a question that can't run
+    if (c.failureMessage) return Promise.reject(new Error(c.failureMessage));
+    beginRequest();
     setProgressText("Understanding your question...");
     setPhase("parsing_query");
 
-    const payload = { type: "query", query };
-    console.log("[WS] 📤 sending:", payload);
-    wsRef.current.send(JSON.stringify(payload));
+    const promise = c.query(query, {
+      context,
+      onAnswer: (answer) => {
+        const running = answer.toolCalls.findLast((call) => call.status === "running");
+        if (running) {
+          setPhase("tool_call");
+          setProgressText(`Calling ${running.tool}...`);
+        } else if (answer.text) {
+          setPhase("answering");
+          setProgressText("");
+        }
+      },
+    });
+    promise.finally(() => syncBusy(c)).catch(() => {});
+    promise.then(
+      () => {
+        if (clientRef.current !== c || c.hasPending("query")) return;
+        setPhase((prev) => (QUERY_PHASES.includes(prev) ? "query_done" : prev));
+        setProgressText("");
+      },
+      (err) => settleFailure(c, err),
+    );
+    return promise;
+  }, [beginRequest, syncBusy, settleFailure]);
+
+  const cancel = useCallback(() => {
+    const c = clientRef.current;
+    if (!c?.hasPending()) return;
+    c.cancel();
+    setBusy(false);
+    setPhase(restPhaseRef.current);
+    setProgressText("");
   }, []);
 
   useEffect(() => {
     return () => {
-      if (wsRef.current) {
-        console.log("[WS] 🧹 cleanup — closing on unmount");
-        wsRef.current.close();
-        wsRef.current = null;
-      }
+      console.log("[WS] 🧹 cleanup — closing on unmount");
+      release("Unmounted");
     };
-  }, []);
+  }, [release]);
 
   return {
     connect,
     disconnect,
+    client,
     triggerSegmentation,
     sendQuery,
+    cancel,
+    busy,
     phase,
     setPhase,
-    progressLog,
+    runs,
     progressText,
     segmentResult,
     setSegmentResult,
-    queryResult,
-    queryResultVersion,
+    liveAnswers,
     error,
+    incompatible,
     isConnected,
   };
 }
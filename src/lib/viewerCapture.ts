@@ -0,0 +1,147 @@
+import { GifEncoder } from "./gifEncoder";
+
+/* ── Viewer captures — legend overlay, PNG encoding, turntable recorders ── */
+
+export interface LegendEntry {
+  label: string;
+  color: [number, number, number];
+}
+
+/** Legend sizes are designed for a 720 px tall image and scaled from there */
+const LEGEND_REFERENCE_HEIGHT = 720;
+
+/** Burn a color legend into the bottom-left corner */
+export function drawLegend(ctx: CanvasRenderingContext2D, entries: LegendEntry[]) {
+  if (!entries.length) return;
+  const scale = Math.max(0.5, ctx.canvas.height / LEGEND_REFERENCE_HEIGHT);
+  const font = 13 * scale;
+  const row = 20 * scale;
+  const pad = 10 * scale;
+  const dot = 5 * scale;
+  const margin = 16 * scale;
+
+  ctx.save();
+  ctx.font = `600 ${font}px ui-sans-serif, system-ui, sans-serif`;
+  ctx.textBaseline = "middle";
+  const textWidth = Math.max(...entries.map((e) => ctx.measureText(e.label).width));
+  const width = pad * 2 + dot * 2 + 8 * scale + textWidth;
+  const height = pad * 2 + row * entries.length - (row - font);
+  const x = margin;
+  const y = ctx.canvas.height - margin - height;
+
+  ctx.fillStyle = "rgba(255, 255, 255, 0.85)";
+  ctx.strokeStyle = "rgba(0, 0, 0, 0.08)";
+  ctx.lineWidth = scale;
+  ctx.beginPath();
+  ctx.roundRect(x, y, width, height, 8 * scale);
+  ctx.fill();
+  ctx.stroke();
+
+  entries.forEach((entry, i) => {
+    const cy = y + pad + font / 2 + i * row;
+    ctx.fillStyle = `rgb(${entry.color[0]}, ${entry.color[1]}, ${entry.color[2]})`;
+    ctx.beginPath();
+    ctx.arc(x + pad + dot, cy, dot, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = "rgba(0, 0, 0, 0.65)";
+    ctx.fillText(entry.label, x + pad + dot * 2 + 8 * scale, cy);
+  });
+  ctx.restore();
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not read the captured image"));
+    img.src = src;
+  });
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = "image/png"): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the image"))), type);
+  });
+}
+
+/* ── Turntable recorders — fed one composited frame per animation tick ── */
+
+export type TurntableFormat = "webm" | "gif";
+
+export interface FrameRecorder {
+  /** The canvas frames are composited onto */
+  canvas: HTMLCanvasElement;
+  /** Called after each frame is drawn onto `canvas`; `elapsedMs` since recording started */
+  frame(elapsedMs: number): void;
+  finish(): Promise<Blob>;
+  cancel(): void;
+}
+
+/** GIF frames per second — higher rates grow the file quickly */
+const GIF_FPS = 15;
+const WEBM_FPS = 30;
+
+const WEBM_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+
+function webmType(): string | null {
+  if (typeof MediaRecorder === "undefined") return null;
+  return WEBM_TYPES.find((t) => MediaRecorder.isTypeSupported(t)) ?? null;
+}
+
+export function canRecordWebm(): boolean {
+  return webmType() !== null;
+}
+
+function webmRecorder(canvas: HTMLCanvasElement): FrameRecorder {
+  const mimeType = webmType();
+  if (!mimeType) throw new Error("This browser can't record WebM video");
+  const recorder = new MediaRecorder(canvas.captureStream(WEBM_FPS), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size) chunks.push(e.data);
+  };
+  recorder.start();
+
+  return {
+    canvas,
+    frame() {
+      // captureStream picks up canvas changes by itself
+    },
+    finish() {
+      return new Promise((resolve) => {
+        recorder.onstop = () => resolve(new Blob(chunks, { type: "video/webm" }));
+        recorder.stop();
+      });
+    },
+    cancel() {
+      recorder.onstop = null;
+      if (recorder.state !== "inactive") recorder.stop();
+    },
+  };
+}
+
+function gifRecorder(canvas: HTMLCanvasElement): FrameRecorder {
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+  const encoder = new GifEncoder(canvas.width, canvas.height);
+  const interval = 1000 / GIF_FPS;
+  let nextFrameAt = 0;
+
+  return {
+    canvas,
+    frame(elapsedMs) {
+      if (elapsedMs < nextFrameAt) return;
+      nextFrameAt += interval;
+      encoder.addFrame(ctx.getImageData(0, 0, canvas.width, canvas.height).data, interval);
+    },
+    finish: () => Promise.resolve(encoder.finish()),
+    cancel() {},
+  };
+}
+
+export function createRecorder(format: TurntableFormat, width: number, height: number): FrameRecorder {
+  const canvas = document.createElement("canvas");
+  // Even dimensions — video encoders reject odd ones
+  canvas.width = Math.max(2, Math.round(width / 2) * 2);
+  canvas.height = Math.max(2, Math.round(height / 2) * 2);
+  return format === "webm" ? webmRecorder(canvas) : gifRecorder(canvas);
+}